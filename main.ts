@@ -1,36 +1,89 @@
-import { App, Editor, EventRef, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile } from 'obsidian';
-import { DataFetcherSettings, DEFAULT_SETTINGS, EndpointConfig } from './src/settings';
+import { App, Editor, EventRef, MarkdownPostProcessorContext, MarkdownRenderChild, MarkdownRenderer, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile, debounce, moment } from 'obsidian';
+import { DataFetcherSettings, DEFAULT_SETTINGS, EndpointAuthConfig, EndpointConfig } from './src/settings';
 import { parseDataQuery, executeQuery, QueryParams, QueryResult } from './src/queryEngine';
 import { CacheManager } from './src/cacheManager';
+import { QueryContext } from './src/templateVariables';
+import { SecretStore, containsSecretReference, isValidSecretName, parseSecretReference } from './src/secretStore';
+import { OAuthTokenManager } from './src/oauth';
+import { ScheduledRefreshChild } from './src/scheduledRefresh';
+import { parseCachePolicy } from './src/cachePolicy';
+import { DEFAULT_RETRY_POLICY, DEFAULT_RETRY_STATUSES, buildRetryPolicy, parseStatusCodes } from './src/retryPolicy';
+import { RequestScheduler, parseHostRateLimits, parseRateLimit } from './src/requestScheduler';
+import { selectPath } from './src/pathQuery';
+import { applyTransforms } from './src/transforms';
+import { TableView } from './src/tableView';
+import { ColumnFormat, formatColumnMarkdown, formatColumnText, renderColumnCell } from './src/columnFormats';
+import { renderTemplate } from './src/markdownTemplate';
+import { ChartConfig, ChartData, buildChartData, renderChart, toMermaidChart } from './src/chart';
+import { JsonTreeView } from './src/jsonTree';
+import { buildSnapshot, extractSnapshotQueries, findDataQueryBlock, normalizeSectionId, replaceManagedSection, resolveNotePath } from './src/noteOutput';
+import { applyPropertyMappings, removeNestedPropertyValue, setNestedPropertyValue } from './src/frontmatterProperties';
+import { ExistingSyncNote, SyncAction, SyncActionKind, SyncConfig, planSync } from './src/noteSync';
+import { DiffEntry, MAX_DIFF_ENTRIES, RowDiff, diffJson, diffRows } from './src/jsonDiff';
+import { WatchMatch, WatchRule, evaluateWatchRules, watchHighlightClasses } from './src/watchRules';
+
+interface NoteRefreshSummary {
+	path: string;
+	refreshed: number;
+	failed: number;
+	errors: string[];
+}
+
+// Longest list shown per section of the sync preview
+const SYNC_PREVIEW_LIMIT = 200;
+const WATCH_NOTICE_DURATION_MS = 10000;
+// Shortest vault-wide refresh interval, so a half-typed value cannot refresh every note every few seconds
+const MIN_BACKGROUND_REFRESH_HOURS = 0.25;
 
 export default class DataFetcherPlugin extends Plugin {
 	settings: DataFetcherSettings;
 	cacheManager: CacheManager;
+	secretStore: SecretStore;
+	oauthTokens: OAuthTokenManager;
+	requestScheduler: RequestScheduler;
 	// Store query data associated with DOM elements
 	private queryButtonMap: WeakMap<HTMLElement, QueryParams> = new WeakMap();
+	// Raw data-query source of each rendered block, kept for snapshots
+	private blockSources: WeakMap<HTMLElement, string> = new WeakMap();
 	private cacheRibbonEl: HTMLElement | null = null;
+	private scheduledRefreshes: Set<ScheduledRefreshChild> = new Set();
+	private vaultRefreshInProgress = false;
+	private backgroundRefreshTimer: number | null = null;
 
 	async onload() {
 		await this.loadSettings();
 		this.cacheManager = new CacheManager(this.app, this);
+		this.secretStore = new SecretStore(this.app);
+		this.oauthTokens = new OAuthTokenManager((alias, refreshToken) => {
+			void this.persistRotatedRefreshToken(alias, refreshToken);
+		});
+		this.requestScheduler = new RequestScheduler();
+		this.configureRequestScheduler();
 
 		// Register the data fetcher processor for codeblocks
         this.registerMarkdownCodeBlockProcessor('data-query', async (source, el, ctx) => {
+            this.blockSources.set(el, source);
             try {
-                const query = parseDataQuery(source, this.settings);
+                const query = parseDataQuery(source, this.settings, this.buildQueryContext(ctx.sourcePath));
                 const cachedResult = await this.cacheManager.getFromCache(query);
                 
                 if (cachedResult) {
                     await this.applyOutputTargetSafely(query, cachedResult, ctx);
                     this.renderResult(cachedResult, el, query, ctx);
+
+                    if (cachedResult.stale) {
+                        void this.revalidateBlock(query, el, ctx);
+                    }
                 } else {
                     el.createEl('div', { text: 'Fetching data...', cls: 'data-fetcher-loading' });
-                    const result = await executeQuery(query);
-                    await this.cacheManager.saveToCache(query, result);
-                    await this.applyOutputTargetSafely(query, result, ctx);
+                    const result = await this.withOfflineFallback(query, await this.executeAndStore(query, ctx));
                     el.empty();
                     this.renderResult(result, el, query, ctx);
                 }
+
+                if (query.refresh) {
+                    this.scheduleBlockRefresh(query, el, ctx);
+                }
             } catch (error) {
                 el.createEl('div', { text: `Error: ${error.message}`, cls: 'data-fetcher-error' });
             }
@@ -46,6 +99,23 @@ export default class DataFetcherPlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'refresh-all-data-queries',
+			name: 'Refresh all data queries in vault',
+			callback: async () => {
+				new Notice('Refreshing data queries in all notes...');
+				await this.refreshQueriesInVault(true);
+			}
+		});
+
+		this.addCommand({
+			id: 'update-snapshots-in-note',
+			name: 'Update snapshots in note',
+			callback: async () => {
+				await this.updateSnapshotsInActiveNote();
+			}
+		});
+
 		this.addCommand({
 			id: 'open-cache-browser',
 			name: 'Open cache browser',
@@ -63,6 +133,13 @@ export default class DataFetcherPlugin extends Plugin {
 			await this.refreshQueriesInActiveNote();
 		}));
 
+		this.updateBackgroundRefreshTimer();
+		this.app.workspace.onLayoutReady(() => {
+			if (this.settings.refreshOnStartup) {
+				void this.refreshQueriesInVault(false);
+			}
+		});
+
 		// Add settings tab
 		this.addSettingTab(new DataFetcherSettingTab(this.app, this));
 	}
@@ -94,6 +171,134 @@ export default class DataFetcherPlugin extends Plugin {
 		return queryBlocks;
 	}
 
+	/**
+	 * Re-run a rendered block on its `refresh` interval until the block or plugin unloads
+	 */
+	private scheduleBlockRefresh(query: QueryParams, el: HTMLElement, ctx: MarkdownPostProcessorContext): void {
+		const child = new ScheduledRefreshChild(el, query.refresh as number, async () => {
+			const result = await this.withOfflineFallback(query, await this.executeAndStore(query, ctx));
+			this.renderResult(result, el, query, ctx);
+		}, disposed => {
+			this.scheduledRefreshes.delete(disposed);
+		});
+
+		this.scheduledRefreshes.add(child);
+		ctx.addChild(child);
+	}
+
+	/**
+	 * Replace a stale cached render with a fresh result fetched in the background
+	 */
+	private async revalidateBlock(query: QueryParams, el: HTMLElement, ctx: MarkdownPostProcessorContext): Promise<void> {
+		const result = await this.executeAndStore(query, ctx);
+		this.renderResult(await this.withOfflineFallback(query, result), el, query, ctx);
+	}
+
+	/**
+	 * When a fetch failed, fall back to the last successful cached payload (even if expired)
+	 * so that a network outage does not replace good data with an error
+	 */
+	private async withOfflineFallback(query: QueryParams, result: QueryResult): Promise<QueryResult> {
+		if (!result.error) {
+			return result;
+		}
+
+		const lastGood = await this.cacheManager.getLastSuccessful(query);
+		if (!lastGood) {
+			return result;
+		}
+
+		return { ...lastGood, stale: true, fallbackError: result.error };
+	}
+
+	/**
+	 * Execute a query, update its cache entry and history, apply its output target and check its watch rules
+	 */
+	private async executeAndStore(query: QueryParams, ctx: any): Promise<QueryResult> {
+		const result = await this.runQuery(query);
+		await this.cacheManager.saveToCache(query, result);
+		await this.cacheManager.saveToHistory(query, result);
+		await this.applyOutputTargetSafely(query, result, ctx);
+		if (query.watch && !result.error) {
+			const previous = await this.cacheManager.readWatchState(query, ctx?.sourcePath);
+			await this.cacheManager.saveWatchState(query, ctx?.sourcePath, result);
+			await this.checkWatchRules(query, query.watch, previous, result, ctx?.sourcePath);
+		}
+		return result;
+	}
+
+	/**
+	 * Execute a query with access to plugin-managed secrets
+	 */
+	private runQuery(query: QueryParams): Promise<QueryResult> {
+		return executeQuery(query, {
+			secrets: this.secretStore,
+			tokens: this.oauthTokens,
+			scheduler: this.requestScheduler,
+			dedupeKey: this.cacheManager.generateCacheKey(query)
+		});
+	}
+
+	private configureRequestScheduler(): void {
+		this.requestScheduler.configure(this.settings.maxConcurrentRequests, this.settings.hostRateLimits);
+	}
+
+	/**
+	 * Keep rotated OAuth2 refresh tokens so the next session does not reuse a revoked one.
+	 * The token goes to the secret store; a literal token in the alias settings is replaced
+	 * by a reference to a new secret, so rotated tokens never end up in data.json.
+	 */
+	private async persistRotatedRefreshToken(alias: string, refreshToken: string): Promise<void> {
+		const endpoint = this.settings.endpoints.find(e => e.alias === alias);
+		if (!endpoint || !endpoint.auth) {
+			return;
+		}
+
+		const secretName = parseSecretReference(endpoint.auth.refreshToken || '');
+		if (secretName) {
+			this.secretStore.set(secretName, refreshToken);
+			return;
+		}
+
+		const newSecretName = this.unusedSecretName(`${alias}.refresh-token`);
+		this.secretStore.set(newSecretName, refreshToken);
+		endpoint.auth.refreshToken = `{{secret:${newSecretName}}}`;
+		await this.saveSettings();
+	}
+
+	private unusedSecretName(base: string): string {
+		const name = base.replace(/[^A-Za-z0-9_.-]/g, '-');
+		const existing = this.secretStore.listNames();
+		let candidate = name;
+		for (let i = 2; existing.includes(candidate); i++) {
+			candidate = `${name}-${i}`;
+		}
+		return candidate;
+	}
+
+	/**
+	 * Collect note metadata used to fill template variables in query blocks
+	 */
+	private buildQueryContext(sourcePath: string): QueryContext {
+		const file = this.app.vault.getAbstractFileByPath(sourcePath);
+		if (!(file instanceof TFile)) {
+			return { frontmatter: {} };
+		}
+
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+		return {
+			frontmatter: { ...frontmatter },
+			file: {
+				name: file.name,
+				basename: file.basename,
+				path: file.path,
+				folder: file.parent?.path || '',
+				ctime: file.stat.ctime,
+				mtime: file.stat.mtime
+			}
+		};
+	}
+
 	private rerenderActiveView(view: MarkdownView): void {
 		const previewMode = (view as any).previewMode;
 		if (previewMode && typeof previewMode.rerender === 'function') {
@@ -105,6 +310,38 @@ export default class DataFetcherPlugin extends Plugin {
 		this.app.workspace.trigger('layout-change');
 	}
 
+	/**
+	 * Re-execute every data-query block in a note and update cache and output targets.
+	 * Blocks run concurrently; the request scheduler applies concurrency and rate limits.
+	 */
+	private async refreshQueriesInFile(file: TFile): Promise<NoteRefreshSummary> {
+		const content = await this.app.vault.cachedRead(file);
+		const queryBlocks = this.extractDataQueryBlocks(content);
+		const summary: NoteRefreshSummary = { path: file.path, refreshed: 0, failed: 0, errors: [] };
+
+		const outcomes = await Promise.all(queryBlocks.map(async querySource => {
+			try {
+				const query = parseDataQuery(querySource, this.settings, this.buildQueryContext(file.path));
+				const result = await this.executeAndStore(query, { sourcePath: file.path });
+				return result.error || null;
+			} catch (error) {
+				console.error('Failed to refresh query block:', error);
+				return String(error.message);
+			}
+		}));
+
+		for (const error of outcomes) {
+			if (error) {
+				summary.failed++;
+				summary.errors.push(error);
+			} else {
+				summary.refreshed++;
+			}
+		}
+
+		return summary;
+	}
+
 	private async refreshQueriesInActiveNote(): Promise<void> {
 		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
 		const activeFile = activeView?.file;
@@ -114,77 +351,136 @@ export default class DataFetcherPlugin extends Plugin {
 			return;
 		}
 
-		const content = await this.app.vault.cachedRead(activeFile);
-		const queryBlocks = this.extractDataQueryBlocks(content);
+		const summary = await this.refreshQueriesInFile(activeFile);
 
-		if (queryBlocks.length === 0) {
+		if (summary.refreshed + summary.failed === 0) {
 			new Notice('No data-query blocks found in the current note');
 			return;
 		}
 
-		let refreshedCount = 0;
-		let failedCount = 0;
+		this.rerenderActiveView(activeView);
 
-		for (const querySource of queryBlocks) {
-			try {
-				const query = parseDataQuery(querySource, this.settings);
-				const result = await executeQuery(query);
-				await this.cacheManager.saveToCache(query, result);
-				await this.applyOutputTargetSafely(query, result, { sourcePath: activeFile.path });
+		if (summary.failed === 0) {
+			new Notice(`Refreshed ${summary.refreshed} data quer${summary.refreshed === 1 ? 'y' : 'ies'}`);
+			return;
+		}
+
+		new Notice(`Refreshed ${summary.refreshed}; ${summary.failed} failed`);
+	}
+
+	/**
+	 * Re-run the queries kept in the active note's snapshots and rewrite only their managed sections
+	 */
+	private async updateSnapshotsInActiveNote(): Promise<void> {
+		const activeFile = this.app.workspace.getActiveFile();
+		if (!activeFile || activeFile.extension !== 'md') {
+			new Notice('No active markdown file to update');
+			return;
+		}
+
+		const snapshots = extractSnapshotQueries(await this.app.vault.cachedRead(activeFile));
+		if (snapshots.length === 0) {
+			new Notice('No snapshots found in the current note');
+			return;
+		}
 
+		const sections = new Map<string, string>();
+		let failed = 0;
+		await Promise.all(snapshots.map(async snapshot => {
+			try {
+				const query = parseDataQuery(snapshot.source, this.settings, this.buildQueryContext(activeFile.path));
+				const result = await this.executeAndStore(query, { sourcePath: activeFile.path });
 				if (result.error) {
-					failedCount++;
-				} else {
-					refreshedCount++;
+					throw new Error(result.error);
 				}
+				sections.set(snapshot.id, this.renderOutputMarkdown(this.selectOutputData(result.data, query), query));
 			} catch (error) {
-				failedCount++;
-				console.error('Failed to refresh query block:', error);
+				console.error(`Failed to update snapshot "${snapshot.id}":`, error);
+				failed++;
 			}
+		}));
+
+		if (sections.size > 0) {
+			await this.app.vault.process(activeFile, content => {
+				let updated = content;
+				for (const [id, markdown] of sections) {
+					updated = replaceManagedSection(updated, id, markdown);
+				}
+				return updated;
+			});
 		}
 
-		this.rerenderActiveView(activeView);
+		new Notice(failed === 0
+			? `Updated ${sections.size} snapshot${sections.size === 1 ? '' : 's'}`
+			: `Updated ${sections.size} snapshot${sections.size === 1 ? '' : 's'}; ${failed} failed`);
+	}
 
-		if (failedCount === 0) {
-			new Notice(`Refreshed ${refreshedCount} data quer${refreshedCount === 1 ? 'y' : 'ies'}`);
+	/**
+	 * Refresh data-query blocks in every markdown note, including notes that are not open
+	 */
+	async refreshQueriesInVault(showSummary: boolean): Promise<void> {
+		if (this.vaultRefreshInProgress) {
+			if (showSummary) {
+				new Notice('A vault-wide data refresh is already running');
+			}
 			return;
 		}
 
-		new Notice(`Refreshed ${refreshedCount}; ${failedCount} failed`);
-	}
+		this.vaultRefreshInProgress = true;
+		const summaries: NoteRefreshSummary[] = [];
 
-	private valuesEqual(a: any, b: any): boolean {
-		return JSON.stringify(a) === JSON.stringify(b);
-	}
+		try {
+			for (const file of this.app.vault.getMarkdownFiles()) {
+				const content = await this.app.vault.cachedRead(file);
+				if (!content.includes('```data-query')) {
+					continue;
+				}
+
+				summaries.push(await this.refreshQueriesInFile(file));
+			}
+		} finally {
+			this.vaultRefreshInProgress = false;
+		}
 
-	private setNestedPropertyValue(target: Record<string, any>, propertyPath: string, value: any): boolean {
-		const segments = propertyPath.split('.').map(segment => segment.trim()).filter(Boolean);
-		if (segments.length === 0) {
-			throw new Error('Property path cannot be empty');
+		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (activeView) {
+			this.rerenderActiveView(activeView);
 		}
 
-		let current: Record<string, any> = target;
-		for (let i = 0; i < segments.length - 1; i++) {
-			const segment = segments[i];
-			const next = current[segment];
-			if (next === null || next === undefined) {
-				current[segment] = {};
-			} else if (typeof next !== 'object' || Array.isArray(next)) {
-				throw new Error(`Property path conflict at "${segment}"`);
-			}
-			current = current[segment] as Record<string, any>;
+		if (showSummary) {
+			new RefreshSummaryModal(this.app, summaries).open();
+			return;
+		}
+
+		const failed = summaries.reduce((sum, summary) => sum + summary.failed, 0);
+		if (failed > 0) {
+			new Notice(`Background data refresh: ${failed} quer${failed === 1 ? 'y' : 'ies'} failed. Run "Refresh all data queries in vault" for details.`);
+		}
+	}
+
+	/**
+	 * (Re)start the periodic vault-wide refresh according to settings
+	 */
+	public updateBackgroundRefreshTimer(): void {
+		if (this.backgroundRefreshTimer !== null) {
+			window.clearInterval(this.backgroundRefreshTimer);
+			this.backgroundRefreshTimer = null;
 		}
 
-		const finalSegment = segments[segments.length - 1];
-		if (this.valuesEqual(current[finalSegment], value)) {
-			return false;
+		const hours = this.settings.backgroundRefreshHours;
+		if (!hours || hours < MIN_BACKGROUND_REFRESH_HOURS) {
+			return;
 		}
 
-		current[finalSegment] = value;
-		return true;
+		this.backgroundRefreshTimer = this.registerInterval(window.setInterval(() => {
+			void this.refreshQueriesInVault(false);
+		}, hours * 60 * 60 * 1000));
 	}
 
-	private async writeToFrontmatter(sourcePath: string, propertyPath: string, value: any): Promise<boolean> {
+	/**
+	 * Write `property` and every `properties` mapping in a single processFrontMatter call
+	 */
+	private async writeToFrontmatter(sourcePath: string, query: QueryParams, value: any): Promise<boolean> {
 		const file = this.app.vault.getAbstractFileByPath(sourcePath);
 		if (!(file instanceof TFile)) {
 			throw new Error(`Source file not found: ${sourcePath}`);
@@ -192,14 +488,62 @@ export default class DataFetcherPlugin extends Plugin {
 
 		let changed = false;
 		await this.app.fileManager.processFrontMatter(file, frontmatter => {
-			changed = this.setNestedPropertyValue(frontmatter, propertyPath, value);
+			if (query.property) {
+				changed = setNestedPropertyValue(frontmatter, query.property, value);
+			}
+			if (query.properties) {
+				changed = applyPropertyMappings(frontmatter, value, query.properties) || changed;
+			}
 		});
 
 		return changed;
 	}
 
+	private async ensureFolder(folder: string): Promise<void> {
+		if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+			await this.app.vault.createFolder(folder);
+		}
+	}
+
+	/**
+	 * Create or update the target note of `output: note`, replacing only this block's managed section
+	 */
+	private async writeToNote(query: QueryParams, markdown: string): Promise<void> {
+		const path = resolveNotePath(query.file || '');
+		const sectionId = normalizeSectionId(query.id || '');
+		const updateNote = async (file: TFile): Promise<void> => {
+			const content = await this.app.vault.cachedRead(file);
+			if (replaceManagedSection(content, sectionId, markdown) !== content) {
+				// process() keeps concurrent blocks writing to the same note from overwriting each other
+				await this.app.vault.process(file, current => replaceManagedSection(current, sectionId, markdown));
+			}
+		};
+
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			await updateNote(existing);
+			return;
+		}
+		if (existing) {
+			throw new Error(`"${path}" is a folder`);
+		}
+
+		await this.ensureFolder(path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '');
+
+		try {
+			await this.app.vault.create(path, replaceManagedSection('', sectionId, markdown));
+		} catch (error) {
+			// Another block may have created the note in the meantime
+			const created = this.app.vault.getAbstractFileByPath(path);
+			if (!(created instanceof TFile)) {
+				throw error;
+			}
+			await updateNote(created);
+		}
+	}
+
 	private async applyOutputTarget(query: QueryParams, result: QueryResult, ctx: any): Promise<void> {
-		if (query.output !== 'frontmatter') {
+		if (query.output !== 'frontmatter' && query.output !== 'note') {
 			return;
 		}
 
@@ -207,16 +551,28 @@ export default class DataFetcherPlugin extends Plugin {
 			return;
 		}
 
-		if (!query.property) {
-			throw new Error('`property` is required when `output: frontmatter` is used');
+		if (query.output === 'note') {
+			await this.writeToNote(query, this.renderOutputMarkdown(this.selectOutputData(result.data, query), query));
+			return;
+		}
+
+		if (!query.property && !query.properties) {
+			throw new Error('`property` or `properties` is required when `output: frontmatter` is used');
 		}
 
 		if (!ctx || !ctx.sourcePath) {
 			throw new Error('Frontmatter output requires a note source path');
 		}
 
-		const selectedData = this.selectDataByPath(result.data, query.path);
-		await this.writeToFrontmatter(ctx.sourcePath, query.property, selectedData);
+		const selectedData = this.selectOutputData(result.data, query);
+		await this.writeToFrontmatter(ctx.sourcePath, query, selectedData);
+	}
+
+	/**
+	 * Apply the block's `path` and `transform` steps; every output uses this data
+	 */
+	private selectOutputData(data: any, query?: QueryParams): any {
+		return applyTransforms(selectPath(data, query?.path), query?.transform);
 	}
 
 	private async applyOutputTargetSafely(query: QueryParams, result: QueryResult, ctx: any): Promise<void> {
@@ -224,59 +580,146 @@ export default class DataFetcherPlugin extends Plugin {
 			await this.applyOutputTarget(query, result, ctx);
 		} catch (error) {
 			console.error('Failed to apply output target:', error);
-			new Notice(`Frontmatter output failed: ${error.message}`);
+			new Notice(`${query.output === 'note' ? 'Note' : 'Frontmatter'} output failed: ${error.message}`);
 		}
 	}
 
-	private selectDataByPath(data: any, path?: string): any {
-		if (!path || path.trim() === '') {
-			return data;
+	/**
+	 * Notify about watch rules that fire for a new result and append them to the watch log note
+	 */
+	private async checkWatchRules(query: QueryParams, rules: WatchRule[], previous: QueryResult | null, result: QueryResult, sourcePath?: string): Promise<void> {
+		try {
+			let before: any;
+			let hasPrevious = false;
+			if (previous) {
+				try {
+					before = this.selectOutputData(previous.data, query);
+					hasPrevious = true;
+				} catch {
+					// The previous result no longer matches the path; treat it as missing
+				}
+			}
+
+			const matches = evaluateWatchRules(rules, before, this.selectOutputData(result.data, query), hasPrevious);
+			if (matches.length === 0) {
+				return;
+			}
+
+			const label = query.id || (query.endpoint !== 'direct' ? `@${query.endpoint}` : 'data-query');
+			for (const match of matches) {
+				new Notice(`${label}: ${match.message}`, WATCH_NOTICE_DURATION_MS);
+			}
+			await this.appendWatchLog(label, matches, sourcePath);
+		} catch (error) {
+			console.error('Failed to check watch rules:', error);
 		}
+	}
 
-		const resolvePath = (root: any, targetPath: string): any => {
-			const segments = targetPath.split('.').map(segment => segment.trim()).filter(Boolean);
-			let current: any = root;
+	private async appendWatchLog(label: string, matches: WatchMatch[], sourcePath?: string): Promise<void> {
+		if (!this.settings.watchLogNote.trim()) {
+			return;
+		}
 
-			for (const segment of segments) {
-				if (current === null || current === undefined) {
-					throw new Error(`Path "${targetPath}" not found`);
-				}
+		const logPath = resolveNotePath(this.settings.watchLogNote);
+		const sourceFile = sourcePath ? this.app.vault.getAbstractFileByPath(sourcePath) : null;
+		const source = sourceFile instanceof TFile
+			? ` ${this.app.fileManager.generateMarkdownLink(sourceFile, logPath)}`
+			: '';
+		const time = moment().format('YYYY-MM-DD HH:mm');
+		const entries = matches.map(match => `- ${time} ${label}${source}: ${match.message}`).join('\n');
+
+		const existing = this.app.vault.getAbstractFileByPath(logPath);
+		if (existing instanceof TFile) {
+			await this.app.vault.process(existing, content => content.trim() ? `${content.replace(/\s*$/, '')}\n${entries}\n` : `${entries}\n`);
+			return;
+		}
 
-				if (Array.isArray(current)) {
-					const index = Number(segment);
-					if (!Number.isInteger(index) || index < 0 || index >= current.length) {
-						throw new Error(`Invalid array index "${segment}" in path "${targetPath}"`);
-					}
-					current = current[index];
-					continue;
-				}
+		await this.ensureFolder(logPath.includes('/') ? logPath.substring(0, logPath.lastIndexOf('/')) : '');
+		await this.app.vault.create(logPath, `${entries}\n`);
+	}
 
-				if (typeof current === 'object' && segment in current) {
-					current = current[segment];
-					continue;
-				}
+	private async openHistory(query: QueryParams): Promise<void> {
+		const snapshots = await this.cacheManager.readHistory(query);
+		new HistoryModal(this.app, snapshots, query.format === 'table', {
+			select: data => this.selectOutputData(data, query),
+			tableData: data => this.resolveTableData(data)
+		}).open();
+	}
 
-				throw new Error(`Path "${targetPath}" not found`);
-			}
+	/**
+	 * Notes directly inside the sync folder, with their frontmatter
+	 */
+	private listSyncNotes(folder: string): ExistingSyncNote[] {
+		return this.app.vault.getMarkdownFiles()
+			.filter(file => (file.parent?.path || '') === folder)
+			.map(file => ({ path: file.path, frontmatter: this.app.metadataCache.getFileCache(file)?.frontmatter || {} }));
+	}
 
-			return current;
-		};
+	/**
+	 * Plan an `output: sync` run and show it in a preview; nothing changes until it is applied
+	 */
+	private previewSync(query: QueryParams, result: QueryResult): void {
+		const sync = query.sync;
+		if (!sync) {
+			return;
+		}
 
 		try {
-			return resolvePath(data, path);
+			const rows = this.tryResolveTableInput(this.selectOutputData(result.data, query));
+			const actions = planSync(Array.isArray(rows) ? this.normalizeTableRows(rows) : rows, sync, this.listSyncNotes(sync.folder), query.properties);
+			new SyncPreviewModal(this.app, sync, actions, () => this.applySync(sync, actions)).open();
 		} catch (error) {
-			// Common GraphQL envelope fallback: { data: ... }
-			if (
-				data &&
-				typeof data === 'object' &&
-				'data' in data &&
-				(data as any).data &&
-				typeof (data as any).data === 'object'
-			) {
-				return resolvePath((data as any).data, path);
+			new Notice(`Sync failed: ${error.message}`);
+		}
+	}
+
+	private async applySync(sync: SyncConfig, actions: SyncAction[]): Promise<void> {
+		const counts: Record<SyncActionKind, number> = { create: 0, update: 0, unchanged: 0, archive: 0 };
+		const errors: string[] = [];
+
+		for (const action of actions) {
+			if (action.kind === 'unchanged') {
+				continue;
+			}
+
+			try {
+				const existing = this.app.vault.getAbstractFileByPath(action.path);
+				if (action.kind === 'create') {
+					await this.ensureFolder(sync.folder);
+					const file = await this.app.vault.create(action.path, '');
+					await this.app.fileManager.processFrontMatter(file, frontmatter => Object.assign(frontmatter, action.properties));
+				} else if (!(existing instanceof TFile)) {
+					throw new Error('note no longer exists');
+				} else if (action.kind === 'update') {
+					await this.app.fileManager.processFrontMatter(existing, frontmatter => {
+						Object.assign(frontmatter, action.properties);
+						for (const name of action.remove || []) {
+							if (name in frontmatter) {
+								delete frontmatter[name];
+							} else {
+								removeNestedPropertyValue(frontmatter, name);
+							}
+						}
+					});
+				} else if (action.target) {
+					await this.ensureFolder(sync.archive || '');
+					const target = this.app.vault.getAbstractFileByPath(action.target)
+						? action.target.replace(/\.md$/, ` ${Date.now()}.md`)
+						: action.target;
+					await this.app.fileManager.renameFile(existing, target);
+				} else {
+					await this.app.fileManager.trashFile(existing);
+				}
+				counts[action.kind]++;
+			} catch (error) {
+				console.error('Failed to sync note:', error);
+				errors.push(`${action.path}: ${error.message}`);
 			}
-			throw error;
 		}
+
+		const archiveLabel = sync.archive === 'trash' ? 'deleted' : 'archived';
+		new Notice(`Sync finished: ${counts.create} created, ${counts.update} updated, ${counts.archive} ${archiveLabel}`
+			+ (errors.length > 0 ? `, ${errors.length} failed (${errors[0]})` : ''));
 	}
 
 	private buildTableData(data: any): { headers: string[]; rows: Record<string, any>[] } | null {
@@ -434,17 +877,67 @@ export default class DataFetcherPlugin extends Plugin {
 		return `${raw.substring(0, maxLength - 3)}...`;
 	}
 
-	private toMarkdownTable(headers: string[], rows: Record<string, any>[]): string {
+	private toMarkdownTable(headers: string[], rows: Record<string, any>[], columns?: Record<string, ColumnFormat>): string {
 		const headerLine = `| ${headers.join(' | ')} |`;
 		const dividerLine = `| ${headers.map(() => '---').join(' | ')} |`;
+		const cellMarkdown = (header: string, value: any): string => {
+			const columnFormat = columns?.[header];
+			return (columnFormat && formatColumnMarkdown(value, columnFormat)) ?? this.tableCellValue(value);
+		};
 		const rowLines = rows.map(row => {
-			const cells = headers.map(header => this.tableCellValue(row[header]).replace(/\|/g, '\\|'));
+			const cells = headers.map(header => cellMarkdown(header, row[header]).replace(/\|/g, '\\|'));
 			return `| ${cells.join(' | ')} |`;
 		});
 
 		return [headerLine, dividerLine, ...rowLines].join('\n');
 	}
 
+	/**
+	 * Find the rows a table is built from, unwrapping GraphQL envelopes and edges
+	 */
+	private resolveTableData(data: any): { headers: string[]; rows: Record<string, any>[] } | null {
+		const tableInput = this.tryResolveTableInput(data);
+		const resolvedTableInput = this.buildTableData(tableInput)
+			? tableInput
+			: (this.findFirstArrayOfObjects(tableInput) || tableInput);
+		const initialTable = this.buildTableData(resolvedTableInput);
+		return initialTable
+			? this.buildTableData(this.normalizeTableRows(initialTable.rows))
+			: null;
+	}
+
+	private resolveChartData(data: any, chart: ChartConfig): ChartData {
+		const rows = this.tryResolveTableInput(data);
+		return buildChartData(Array.isArray(rows) ? this.normalizeTableRows(rows) : rows, chart);
+	}
+
+	/**
+	 * Markdown for the block's format, as written by `output: note`
+	 */
+	private renderOutputMarkdown(data: any, query: QueryParams): string {
+		if (data === null || data === undefined) {
+			return 'No data returned';
+		}
+
+		const format = query.format || 'json';
+		if (format === 'template' && query.template) {
+			return renderTemplate(query.template, data);
+		}
+		if (format === 'chart' && query.chart) {
+			return toMermaidChart(this.resolveChartData(data, query.chart), query.chart.kind);
+		}
+		if (format === 'table') {
+			const tableData = this.resolveTableData(data);
+			if (tableData) {
+				return this.toMarkdownTable(tableData.headers, tableData.rows, query.columns);
+			}
+		}
+		if (typeof data === 'object') {
+			return '```json\n' + JSON.stringify(data, null, 2) + '\n```';
+		}
+		return String(data);
+	}
+
 	renderResult(result: QueryResult, container: HTMLElement, query?: QueryParams, ctx?: any) {
 	    // First clear the container
 	    container.empty();
@@ -460,6 +953,9 @@ export default class DataFetcherPlugin extends Plugin {
 	    }
 	    
 	    const resultContainer = container.createEl('div', { cls: 'data-fetcher-result' });
+		if (result.stale) {
+			resultContainer.addClass('is-stale');
+		}
 	    
 	    // Store source information from context if available
 	    if (ctx && ctx.sourcePath && ctx.getSectionInfo) {
@@ -477,14 +973,37 @@ export default class DataFetcherPlugin extends Plugin {
 	    }
 	    
 	    let outputText = '';
+		// Template and chart output is already markdown and is saved as-is
+		let outputIsMarkdown = false;
 	    
 	    // Create header with timestamp and refresh button
 	    const header = resultContainer.createEl('div', { cls: 'data-fetcher-header' });
-	    header.createEl('span', { 
+		const timestampEl = header.createEl('span', { 
 	        text: `Last updated: ${new Date(result.timestamp).toLocaleString()}`, 
 	        cls: 'data-fetcher-timestamp' 
 	    });
 	    
+		if (result.fallbackError) {
+			timestampEl.appendText(' ');
+			timestampEl.createEl('span', {
+				text: `${navigator.onLine ? 'Fetch failed' : 'Offline'} · stale since ${new Date(result.timestamp).toLocaleString()}`,
+				cls: 'data-fetcher-stale-badge data-fetcher-offline-badge',
+				attr: { title: result.fallbackError }
+			});
+		} else if (result.stale) {
+			timestampEl.appendText(' ');
+			timestampEl.createEl('span', {
+				text: 'Stale, updating...',
+				cls: 'data-fetcher-stale-badge'
+			});
+		}
+		
+		// Countdown text is filled in by the block's scheduled refresh
+		if (query?.refresh) {
+			timestampEl.appendText(' · ');
+			timestampEl.createEl('span', { cls: 'data-fetcher-countdown' });
+		}
+		
 	    // Create action buttons container
 	    const actionButtons = header.createEl('div', { cls: 'data-fetcher-actions' });
 	    
@@ -500,9 +1019,27 @@ export default class DataFetcherPlugin extends Plugin {
 	        cls: 'data-fetcher-save-note'
 	    });
 	    
+		if (query?.output === 'sync' && query.sync) {
+			const syncBtn = actionButtons.createEl('button', {
+				text: 'Sync notes',
+				cls: 'data-fetcher-sync'
+			});
+			syncBtn.addEventListener('click', () => this.previewSync(query, result));
+		}
+		
+		if (query?.history) {
+			const historyBtn = actionButtons.createEl('button', {
+				text: 'History',
+				cls: 'data-fetcher-history'
+			});
+			historyBtn.addEventListener('click', () => {
+				void this.openHistory(query);
+			});
+		}
+		
 	    // Add refresh button
 	    const refreshBtn = actionButtons.createEl('button', { 
-	        text: 'Refresh',
+			text: result.fallbackError ? 'Retry' : 'Refresh',
 	        cls: 'data-fetcher-refresh' 
 	    });
 	    
@@ -517,14 +1054,12 @@ export default class DataFetcherPlugin extends Plugin {
 	                throw new Error('Query data not found');
 	            }
 	            
-	            const result = await executeQuery(storedQuery);
-	            await this.cacheManager.saveToCache(storedQuery, result);
-	            await this.applyOutputTargetSafely(storedQuery, result, ctx);
+				const result = await this.executeAndStore(storedQuery, ctx);
 	            
 	            container.empty();
-	            this.renderResult(result, container, storedQuery, ctx);
+				this.renderResult(await this.withOfflineFallback(storedQuery, result), container, storedQuery, ctx);
 	            
-	            new Notice('Data refreshed successfully');
+				new Notice(result.error ? `Refresh failed: ${result.error}` : 'Data refreshed successfully');
 	        } catch (error) {
 	            container.empty();
 	            container.createEl('div', { text: `Error: ${error.message}`, cls: 'data-fetcher-error' });
@@ -538,49 +1073,67 @@ export default class DataFetcherPlugin extends Plugin {
 	    
 	    // Add event listener for save to note button with proper data
 	    saveToNoteBtn.addEventListener('click', () => {
-	        this.saveResultToNote(outputText, container);
+			void this.saveResultToNote(outputText, container, outputIsMarkdown, query);
 	    });
 	    
 	    // Create the content container
 	    const content = resultContainer.createEl('div', { cls: 'data-fetcher-content' });
 	    
 	    try {
-	        const selectedData = this.selectDataByPath(result.data, query?.path);
+			const selectedData = this.selectOutputData(result.data, query);
 	        const format = query?.format || 'json';
 	        
+			if (query?.watch) {
+				resultContainer.addClasses(watchHighlightClasses(query.watch, selectedData));
+			}
+			
 	        if (selectedData === null || selectedData === undefined) {
 	            outputText = 'No data returned';
 	            content.setText(outputText);
+			} else if (format === 'template' && query?.template) {
+				outputText = renderTemplate(query.template, selectedData);
+				outputIsMarkdown = true;
+				const templateEl = content.createDiv({ cls: 'data-fetcher-template' });
+				const renderChild = new MarkdownRenderChild(templateEl);
+				if (ctx && typeof ctx.addChild === 'function') {
+					ctx.addChild(renderChild);
+				} else {
+					this.addChild(renderChild);
+				}
+				void MarkdownRenderer.render(this.app, outputText, templateEl, ctx?.sourcePath || '', renderChild);
+			} else if (format === 'chart' && query?.chart) {
+				const chartData = this.resolveChartData(selectedData, query.chart);
+				renderChart(content, chartData, query.chart.kind);
+				// Saved as a Mermaid block so the snapshot stays visual
+				outputText = toMermaidChart(chartData, query.chart.kind);
+				outputIsMarkdown = true;
+			} else if (format === 'tree' && typeof selectedData === 'object') {
+				outputText = JSON.stringify(selectedData, null, 2);
+				new JsonTreeView(content, selectedData);
 	        } else if (format === 'table') {
-	            const tableInput = this.tryResolveTableInput(selectedData);
-	            const resolvedTableInput = this.buildTableData(tableInput)
-	                ? tableInput
-	                : (this.findFirstArrayOfObjects(tableInput) || tableInput);
-	            const initialTable = this.buildTableData(resolvedTableInput);
-	            const tableData = initialTable
-	                ? this.buildTableData(this.normalizeTableRows(initialTable.rows))
-	                : null;
+				const tableData = this.resolveTableData(selectedData);
 	            if (tableData) {
-	                const tableEl = content.createEl('table', { cls: 'data-fetcher-table' });
-	                const thead = tableEl.createEl('thead');
-	                const headerRow = thead.createEl('tr');
-	                for (const headerName of tableData.headers) {
-	                    headerRow.createEl('th', { text: headerName });
-	                }
-	                const tbody = tableEl.createEl('tbody');
-	                for (const row of tableData.rows) {
-	                    const tr = tbody.createEl('tr');
-	                    for (const headerName of tableData.headers) {
-	                        const fullValue = this.tableCellValue(row[headerName]);
-	                        const cell = tr.createEl('td');
+					// Copy and Save to Note follow the current sort, filter and visible columns
+					new TableView(content, tableData.headers, tableData.rows, {
+						renderCell: (cell, header, value) => {
+							const columnFormat = query?.columns?.[header];
+							if (columnFormat && renderColumnCell(cell, value, columnFormat)) {
+								return;
+							}
 	                        cell.createEl('span', {
-	                            text: this.tableCellDisplayValue(row[headerName]),
+								text: this.tableCellDisplayValue(value),
 	                            cls: 'data-fetcher-table-cell',
-	                            attr: { title: fullValue }
+								attr: { title: this.tableCellValue(value) }
 	                        });
+						},
+						cellText: (header, value) => {
+							const columnFormat = query?.columns?.[header];
+							return (columnFormat && formatColumnText(value, columnFormat)) ?? this.tableCellValue(value);
+						},
+						onViewChange: (headers, rows) => {
+							outputText = this.toMarkdownTable(headers, rows, query?.columns);
 	                    }
-	                }
-	                outputText = this.toMarkdownTable(tableData.headers, tableData.rows);
+					});
 	            } else {
 	                outputText = JSON.stringify(selectedData, null, 2);
 	                content.createEl('div', {
@@ -615,121 +1168,53 @@ export default class DataFetcherPlugin extends Plugin {
 	    });
 	}
 	
-	saveResultToNote(dataString: string, container: HTMLElement): void {
+	/**
+	 * Replace the rendered block with a snapshot: the query is kept in an HTML comment and the
+	 * output goes between managed markers, so "Update snapshots in note" can refresh it later
+	 */
+	async saveResultToNote(dataString: string, container: HTMLElement, isMarkdown = false, query?: QueryParams): Promise<void> {
         try {
-            // Get the active view
-            const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-            
-            if (!activeView) {
-                new Notice('No active markdown view - please open a markdown file first');
+            const source = this.blockSources.get(container);
+            const sourcePath = container.dataset.sourcePath || this.app.workspace.getActiveFile()?.path;
+            const file = sourcePath ? this.app.vault.getAbstractFileByPath(sourcePath) : null;
+
+            if (!source || !(file instanceof TFile)) {
+                new Notice('Could not find the note for this data-query block');
                 return;
             }
-            
-            const editor = activeView.editor;
-            
-            // Format the data if it's not already formatted
-            let formattedData: string;
-            try {
-                // Check if the data looks like JSON
-                JSON.parse(dataString);
-                formattedData = '```json\n' + dataString + '\n```';
-            } catch (e) {
-                // If it's not valid JSON, treat as plain text
-                formattedData = dataString;
-            }
-            
-            // Add a comment with timestamp
-            const timestamp = new Date().toLocaleString();
-            const commentedData = `<!-- Data saved on ${timestamp} -->\n${formattedData}`;
-            
-            // Try to locate the code block position from container's dataset
-            if (container.dataset.sourcePath && 
-                container.dataset.lineStart && 
-                container.dataset.lineEnd) {
-                // Check if the source path matches the current file
-                const currentPath = activeView.file?.path;
-                if (currentPath === container.dataset.sourcePath) {
-                    const start = { 
-                        line: parseInt(container.dataset.lineStart), 
-                        ch: 0 
-                    };
-                    const end = { 
-                        line: parseInt(container.dataset.lineEnd), 
-                        ch: editor.getLine(parseInt(container.dataset.lineEnd)).length 
-                    };
-                    
-                    // Use editor transaction for safer text replacement
-                    editor.transaction({
-                        changes: [
-                            {
-                                from: start,
-                                to: end,
-                                text: commentedData
-                            }
-                        ]
-                    });
-                    
-                    new Notice('Data block replaced with static content');
-                    return;
+
+            // Non-markdown output that looks like JSON is kept in a code fence
+            let formattedData = dataString;
+            if (!isMarkdown) {
+                try {
+                    JSON.parse(dataString);
+                    formattedData = '```json\n' + dataString + '\n```';
+                } catch (e) {
+                    formattedData = dataString;
                 }
             }
-            
-            // Fallback: Try to use the Obsidian view to locate the code block
-            // This is a secondary approach that might work in some cases
-            const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
-            if (markdownView && markdownView.getMode() === 'source') {
-                // Try to find the code block in the source by looking for data-query blocks
-                const text = editor.getValue();
-                const lines = text.split('\n');
-                
-                for (let i = 0; i < lines.length; i++) {
-                    if (lines[i].trim() === '```data-query') {
-                        // Found a start marker, now find the end
-                        let endLine = -1;
-                        for (let j = i + 1; j < lines.length; j++) {
-                            if (lines[j].trim() === '```') {
-                                endLine = j;
-                                break;
-                            }
-                        }
-                        
-                        if (endLine > i) {
-                            // Replace the entire code block
-                            const start = { line: i, ch: 0 };
-                            const end = { line: endLine, ch: lines[endLine].length };
-                            
-                            editor.transaction({
-                                changes: [
-                                    {
-                                        from: start,
-                                        to: end,
-                                        text: commentedData
-                                    }
-                                ]
-                            });
-                            
-                            new Notice('Data block replaced with static content');
-                            return;
-                        }
-                    }
+
+            const snapshotId = normalizeSectionId(query?.id || `snapshot-${Date.now().toString(36)}`);
+            const snapshot = buildSnapshot(snapshotId, source, formattedData);
+            const hint = container.dataset.lineStart && container.dataset.lineEnd
+                ? { start: parseInt(container.dataset.lineStart), end: parseInt(container.dataset.lineEnd) }
+                : undefined;
+
+            let replaced = false;
+            await this.app.vault.process(file, content => {
+                const lines = content.split('\n');
+                const block = findDataQueryBlock(lines, source, query?.id, hint);
+                if (!block) {
+                    return content;
                 }
-            }
-            
-            // If all attempts to find the code block failed, insert at cursor position
-            const cursor = editor.getCursor();
-            
-            editor.transaction({
-                changes: [
-                    {
-                        from: cursor,
-                        to: cursor,
-                        text: `\n${commentedData}\n`
-                    }
-                ]
+                replaced = true;
+                lines.splice(block.start, block.end - block.start + 1, snapshot);
+                return lines.join('\n');
             });
-            
-            new Notice('Data saved to note at cursor position');
-            
+
+            new Notice(replaced
+                ? 'Data block saved as a snapshot'
+                : 'Could not find this data-query block in the note. Give it an `id` and try again');
         } catch (error) {
             console.error("Error saving data to note:", error);
             new Notice(`Error saving data: ${error.message}`);
@@ -738,6 +1223,10 @@ export default class DataFetcherPlugin extends Plugin {
 
 	onunload() {
 		// WeakMap will be garbage collected automatically when plugin is unloaded
+		for (const child of Array.from(this.scheduledRefreshes)) {
+			child.unload();
+		}
+		this.scheduledRefreshes.clear();
 	}
 
 	async loadSettings() {
@@ -746,6 +1235,7 @@ export default class DataFetcherPlugin extends Plugin {
 
 	async saveSettings() {
 		await this.saveData(this.settings);
+		this.configureRequestScheduler();
 	}
 }
 
@@ -822,6 +1312,100 @@ class DataFetcherSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 					this.plugin.updateCacheRibbonIcon();
 				}));
+
+		// Background refresh section
+		new Setting(containerEl)
+			.setName('Background refresh')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Refresh interval')
+			.setDesc(`Refresh data queries in all notes every N hours, including frontmatter outputs (0 disables, at least ${MIN_BACKGROUND_REFRESH_HOURS})`)
+			.addText(text => {
+				// Rebuild the timer once typing pauses, not on every keystroke
+				const applyInterval = debounce(async (hours: number) => {
+					this.plugin.settings.backgroundRefreshHours = hours;
+					await this.plugin.saveSettings();
+					this.plugin.updateBackgroundRefreshTimer();
+				}, 1000, true);
+
+				text
+					.setPlaceholder('0')
+					.setValue(String(this.plugin.settings.backgroundRefreshHours || 0))
+					.onChange((value) => {
+						const hours = value.trim() ? Number(value.trim()) : 0;
+						if (!Number.isFinite(hours) || (hours !== 0 && hours < MIN_BACKGROUND_REFRESH_HOURS)) {
+							text.inputEl.addClass('data-fetcher-invalid-input');
+							text.inputEl.title = `Use 0 or at least ${MIN_BACKGROUND_REFRESH_HOURS} hours`;
+							return;
+						}
+						text.inputEl.removeClass('data-fetcher-invalid-input');
+						text.inputEl.title = '';
+						applyInterval(hours);
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Refresh on startup')
+			.setDesc('Refresh data queries in all notes once Obsidian has finished loading')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.refreshOnStartup)
+				.onChange(async (value) => {
+					this.plugin.settings.refreshOnStartup = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Watch log note')
+			.setDesc('Note that `watch` rule matches are appended to, e.g. Logs/Data watch.md. Leave empty to only show notices.')
+			.addText(text => text
+				.setPlaceholder('Logs/Data watch.md')
+				.setValue(this.plugin.settings.watchLogNote)
+				.onChange(async (value) => {
+					this.plugin.settings.watchLogNote = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		// Request limits section
+		new Setting(containerEl)
+			.setName('Request limits')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Maximum concurrent requests')
+			.setDesc('How many requests may run at the same time across all notes. Identical queries in flight share one request.')
+			.addText(text => text
+				.setPlaceholder('4')
+				.setValue(String(this.plugin.settings.maxConcurrentRequests))
+				.onChange(async (value) => {
+					const limit = parseInt(value);
+					this.plugin.settings.maxConcurrentRequests = Number.isFinite(limit) && limit > 0 ? limit : DEFAULT_SETTINGS.maxConcurrentRequests;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Host rate limits')
+			.setDesc('One host per line as host = requests/interval, e.g. api.github.com = 30/1m')
+			.addTextArea(text => {
+				text
+					.setPlaceholder('api.github.com = 30/1m')
+					.setValue(Object.entries(this.plugin.settings.hostRateLimits || {})
+						.map(([host, limit]) => `${host} = ${limit}`)
+						.join('\n'))
+					.onChange(async (value) => {
+						try {
+							this.plugin.settings.hostRateLimits = parseHostRateLimits(value);
+						} catch (error) {
+							text.inputEl.addClass('data-fetcher-invalid-input');
+							text.inputEl.title = error.message;
+							return;
+						}
+						text.inputEl.removeClass('data-fetcher-invalid-input');
+						text.inputEl.title = '';
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 4;
+			});
 				
 		// Endpoint aliases section
 		new Setting(containerEl)
@@ -842,14 +1426,67 @@ class DataFetcherSettingTab extends PluginSettingTab {
 						this.display();
 					}).open();
 				}));
-	}
 
-	private buildDefaultEndpoint(): EndpointConfig {
-		return {
-			alias: '',
-			url: '',
-			method: 'GET',
-			type: 'rest',
+		// Secrets section
+		new Setting(containerEl)
+			.setName('Secrets')
+			.setDesc('Credentials stored on this device only (not in data.json). Reference them in headers or URLs as {{secret:NAME}}.')
+			.setHeading();
+
+		this.renderSecretList(containerEl);
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add secret')
+				.onClick(() => {
+					new SecretEditorModal(this.app, '', (name, value) => {
+						this.plugin.secretStore.set(name, value);
+						this.display();
+					}).open();
+				}));
+	}
+
+	private renderSecretList(containerEl: HTMLElement): void {
+		const names = this.plugin.secretStore.listNames();
+		if (names.length === 0) {
+			containerEl.createEl('div', { text: 'No secrets stored yet.', cls: 'data-fetcher-endpoint-empty' });
+			return;
+		}
+
+		for (const name of names) {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(`{{secret:${name}}}`)
+				.addButton(button => button
+					.setButtonText('Replace value')
+					.onClick(() => {
+						new SecretEditorModal(this.app, name, (savedName, value) => {
+							if (savedName !== name) {
+								this.plugin.secretStore.delete(name);
+							}
+							this.plugin.secretStore.set(savedName, value);
+							this.display();
+						}).open();
+					}))
+				.addButton(button => button
+					.setButtonText('Delete')
+					.setWarning()
+					.onClick(() => {
+						if (!window.confirm(`Delete secret ${name}?`)) {
+							return;
+						}
+						this.plugin.secretStore.delete(name);
+						this.display();
+					}));
+		}
+	}
+
+	private buildDefaultEndpoint(): EndpointConfig {
+		return {
+			alias: '',
+			url: '',
+			method: 'GET',
+			type: 'rest',
 			headers: {}
 		};
 	}
@@ -961,17 +1598,121 @@ class EndpointEditorModal extends Modal {
 	private onSubmit: (endpoint: EndpointConfig) => void;
 	private methodSettingEl: HTMLElement | null = null;
 	private headersSummaryEl: HTMLElement | null = null;
+	private authSettingsEl: HTMLElement | null = null;
+	// Raw text of the retry fields, validated on save
+	private retryDraft: { timeout?: string; retries?: string; retryBackoff?: string; retryStatuses?: string } = {};
 
 	constructor(app: App, endpoint: EndpointConfig, onSubmit: (endpoint: EndpointConfig) => void) {
 		super(app);
 		this.endpoint = {
 			...endpoint,
 			headers: { ...(endpoint.headers || {}) },
-			method: endpoint.method || 'GET'
+			method: endpoint.method || 'GET',
+			auth: endpoint.auth ? { ...endpoint.auth } : undefined
 		};
 		this.onSubmit = onSubmit;
 	}
 
+	private ensureAuthConfig(): EndpointAuthConfig {
+		if (!this.endpoint.auth) {
+			this.endpoint.auth = {
+				type: 'none',
+				grantType: 'client_credentials',
+				tokenUrl: '',
+				clientId: '',
+				clientSecret: '',
+				scopes: ''
+			};
+		}
+		return this.endpoint.auth;
+	}
+
+	private renderAuthSettings(): void {
+		if (!this.authSettingsEl) {
+			return;
+		}
+
+		const containerEl = this.authSettingsEl;
+		containerEl.empty();
+		const auth = this.ensureAuthConfig();
+		const authMode = auth.type === 'oauth2' ? auth.grantType : 'none';
+
+		new Setting(containerEl)
+			.setName('Authentication')
+			.setDesc('OAuth2 access tokens are requested automatically and renewed when they expire')
+			.addDropdown(dropdown => dropdown
+				.addOption('none', 'None / static headers')
+				.addOption('client_credentials', 'OAuth2 client credentials')
+				.addOption('refresh_token', 'OAuth2 refresh token')
+				.setValue(authMode)
+				.onChange(value => {
+					if (value === 'client_credentials' || value === 'refresh_token') {
+						auth.type = 'oauth2';
+						auth.grantType = value;
+					} else {
+						auth.type = 'none';
+					}
+					this.renderAuthSettings();
+				}));
+
+		if (auth.type !== 'oauth2') {
+			return;
+		}
+
+		new Setting(containerEl)
+			.setName('Token URL')
+			.addText(text => text
+				.setPlaceholder('https://auth.example.com/oauth/token')
+				.setValue(auth.tokenUrl || '')
+				.onChange(value => {
+					auth.tokenUrl = value.trim();
+				}));
+
+		new Setting(containerEl)
+			.setName('Client ID')
+			.addText(text => text
+				.setValue(auth.clientId || '')
+				.onChange(value => {
+					auth.clientId = value.trim();
+				}));
+
+		new Setting(containerEl)
+			.setName('Client secret')
+			.setDesc('Prefer a {{secret:NAME}} reference over a literal value')
+			.addText(text => {
+				text.inputEl.type = containsSecretReference(auth.clientSecret || '') ? 'text' : 'password';
+				text.setPlaceholder('{{secret:CLIENT_SECRET}}')
+					.setValue(auth.clientSecret || '')
+					.onChange(value => {
+						auth.clientSecret = value.trim();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Scopes')
+			.setDesc('Space separated, optional')
+			.addText(text => text
+				.setPlaceholder('read:data')
+				.setValue(auth.scopes || '')
+				.onChange(value => {
+					auth.scopes = value.trim();
+				}));
+
+		if (auth.grantType === 'refresh_token') {
+			new Setting(containerEl)
+				.setName('Refresh token')
+				.setDesc('Rotated refresh tokens are saved to the secret store automatically')
+				.addText(text => {
+					text.inputEl.type = containsSecretReference(auth.refreshToken || '') ? 'text' : 'password';
+					text.setPlaceholder('{{secret:REFRESH_TOKEN}}')
+						.setValue(auth.refreshToken || '')
+						.onChange(value => {
+							auth.refreshToken = value.trim();
+						});
+				});
+		}
+	}
+
 	private updateHeadersSummary(): void {
 		if (!this.headersSummaryEl) {
 			return;
@@ -1053,6 +1794,66 @@ class EndpointEditorModal extends Modal {
 
 		this.renderMethodSetting(contentEl);
 
+		new Setting(contentEl)
+			.setName('Cache')
+			.setDesc('Default cache policy for this alias: a duration (1m, 7d), none or forever, optionally followed by swr. Empty uses the global cache duration.')
+			.addText(text => text
+				.setPlaceholder('10m swr')
+				.setValue(this.endpoint.cache || '')
+				.onChange(value => {
+					this.endpoint.cache = value.trim() || undefined;
+				}));
+
+		new Setting(contentEl)
+			.setName('Timeout')
+			.setDesc(`Seconds to wait for a response, 0 disables (default ${DEFAULT_RETRY_POLICY.timeoutMs / 1000})`)
+			.addText(text => text
+				.setPlaceholder(String(DEFAULT_RETRY_POLICY.timeoutMs / 1000))
+				.setValue(this.endpoint.timeout !== undefined ? String(this.endpoint.timeout) : '')
+				.onChange(value => {
+					this.retryDraft.timeout = value.trim();
+				}));
+
+		new Setting(contentEl)
+			.setName('Retries')
+			.setDesc('Extra attempts after network errors, timeouts or retryable status codes (default 0)')
+			.addText(text => text
+				.setPlaceholder('0')
+				.setValue(this.endpoint.retries !== undefined ? String(this.endpoint.retries) : '')
+				.onChange(value => {
+					this.retryDraft.retries = value.trim();
+				}));
+
+		new Setting(contentEl)
+			.setName('Retry backoff')
+			.setDesc('Base delay in milliseconds, doubled on each retry. Retry-After on 429/503 takes precedence.')
+			.addText(text => text
+				.setPlaceholder(String(DEFAULT_RETRY_POLICY.backoffMs))
+				.setValue(this.endpoint.retryBackoff !== undefined ? String(this.endpoint.retryBackoff) : '')
+				.onChange(value => {
+					this.retryDraft.retryBackoff = value.trim();
+				}));
+
+		new Setting(contentEl)
+			.setName('Retryable status codes')
+			.setDesc('Comma separated')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_RETRY_STATUSES.join(', '))
+				.setValue(this.endpoint.retryStatuses ? this.endpoint.retryStatuses.join(', ') : '')
+				.onChange(value => {
+					this.retryDraft.retryStatuses = value.trim();
+				}));
+
+		new Setting(contentEl)
+			.setName('Rate limit')
+			.setDesc('Maximum requests per interval across all blocks using this alias, e.g. 10/1m. Empty means no limit.')
+			.addText(text => text
+				.setPlaceholder('10/1m')
+				.setValue(this.endpoint.rateLimit || '')
+				.onChange(value => {
+					this.endpoint.rateLimit = value.trim() || undefined;
+				}));
+
 		new Setting(contentEl)
 			.setName('Headers')
 			.setDesc('Authentication and custom request headers')
@@ -1068,6 +1869,9 @@ class EndpointEditorModal extends Modal {
 		this.headersSummaryEl = contentEl.createEl('div', { cls: 'data-fetcher-endpoint-header-summary' });
 		this.updateHeadersSummary();
 
+		this.authSettingsEl = contentEl.createDiv();
+		this.renderAuthSettings();
+
 		const actions = contentEl.createEl('div', { cls: 'data-fetcher-endpoint-editor-actions' });
 		actions.createEl('button', { text: 'Cancel' }).addEventListener('click', () => this.close());
 		actions.createEl('button', { text: 'Save', cls: 'mod-cta' }).addEventListener('click', () => {
@@ -1080,17 +1884,80 @@ class EndpointEditorModal extends Modal {
 				return;
 			}
 
+			if (this.endpoint.cache) {
+				try {
+					parseCachePolicy(this.endpoint.cache);
+				} catch (error) {
+					new Notice(error.message);
+					return;
+				}
+			}
+
+			if (this.endpoint.rateLimit) {
+				try {
+					parseRateLimit(this.endpoint.rateLimit);
+				} catch (error) {
+					new Notice(error.message);
+					return;
+				}
+			}
+
+			const retrySettings: Pick<EndpointConfig, 'timeout' | 'retries' | 'retryBackoff' | 'retryStatuses'> = {};
+			try {
+				const readNumber = (draft: string | undefined, current: number | undefined): number | undefined => {
+					if (draft === undefined) return current;
+					return draft === '' ? undefined : Number(draft);
+				};
+				retrySettings.timeout = readNumber(this.retryDraft.timeout, this.endpoint.timeout);
+				retrySettings.retries = readNumber(this.retryDraft.retries, this.endpoint.retries);
+				retrySettings.retryBackoff = readNumber(this.retryDraft.retryBackoff, this.endpoint.retryBackoff);
+				retrySettings.retryStatuses = this.retryDraft.retryStatuses === undefined
+					? this.endpoint.retryStatuses
+					: (this.retryDraft.retryStatuses ? parseStatusCodes(this.retryDraft.retryStatuses) : undefined);
+				buildRetryPolicy(retrySettings);
+			} catch (error) {
+				new Notice(error.message);
+				return;
+			}
+
+			const auth = this.endpoint.auth;
+			if (auth && auth.type === 'oauth2') {
+				if (!auth.tokenUrl) {
+					new Notice('OAuth2 token URL is required.');
+					return;
+				}
+				if (auth.grantType === 'refresh_token' && !auth.refreshToken) {
+					new Notice('OAuth2 refresh token is required.');
+					return;
+				}
+			}
+
 			if (this.endpoint.type === 'graphql' || this.endpoint.type === 'grpc') {
 				this.endpoint.method = 'POST';
 			}
 
-			this.onSubmit({
+			const savedEndpoint: EndpointConfig = {
 				alias: this.endpoint.alias.trim(),
 				type: this.endpoint.type,
 				url: this.endpoint.url.trim(),
 				method: this.endpoint.method || 'GET',
 				headers: { ...(this.endpoint.headers || {}) }
-			});
+			};
+			if (auth && auth.type === 'oauth2') {
+				savedEndpoint.auth = { ...auth };
+			}
+			if (this.endpoint.cache) {
+				savedEndpoint.cache = this.endpoint.cache;
+			}
+			if (retrySettings.timeout !== undefined) savedEndpoint.timeout = retrySettings.timeout;
+			if (retrySettings.retries !== undefined) savedEndpoint.retries = retrySettings.retries;
+			if (retrySettings.retryBackoff !== undefined) savedEndpoint.retryBackoff = retrySettings.retryBackoff;
+			if (retrySettings.retryStatuses !== undefined) savedEndpoint.retryStatuses = retrySettings.retryStatuses;
+			if (this.endpoint.rateLimit) {
+				savedEndpoint.rateLimit = this.endpoint.rateLimit;
+			}
+
+			this.onSubmit(savedEndpoint);
 			this.close();
 		});
 	}
@@ -1101,6 +1968,389 @@ class EndpointEditorModal extends Modal {
 	}
 }
 
+class RefreshSummaryModal extends Modal {
+	private summaries: NoteRefreshSummary[];
+
+	constructor(app: App, summaries: NoteRefreshSummary[]) {
+		super(app);
+		this.summaries = summaries;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('data-fetcher-refresh-summary');
+
+		new Setting(contentEl)
+			.setName('Data refresh summary')
+			.setHeading();
+
+		const refreshed = this.summaries.reduce((sum, summary) => sum + summary.refreshed, 0);
+		const failed = this.summaries.reduce((sum, summary) => sum + summary.failed, 0);
+		contentEl.createEl('div', {
+			text: `${this.summaries.length} note${this.summaries.length === 1 ? '' : 's'}: ${refreshed} refreshed, ${failed} failed`,
+			cls: 'data-fetcher-refresh-summary-totals'
+		});
+
+		if (this.summaries.length === 0) {
+			contentEl.createEl('div', { text: 'No data-query blocks found in the vault.', cls: 'data-fetcher-cache-empty' });
+			return;
+		}
+
+		const list = contentEl.createEl('div', { cls: 'data-fetcher-refresh-summary-list' });
+		for (const summary of this.summaries) {
+			const row = list.createEl('div', {
+				cls: `data-fetcher-refresh-summary-row${summary.failed > 0 ? ' is-failed' : ''}`
+			});
+			const link = row.createEl('a', { text: summary.path, cls: 'data-fetcher-refresh-summary-path' });
+			link.addEventListener('click', () => {
+				void this.app.workspace.openLinkText(summary.path, '');
+				this.close();
+			});
+			row.createEl('span', {
+				text: `${summary.refreshed} refreshed, ${summary.failed} failed`,
+				cls: 'data-fetcher-refresh-summary-counts'
+			});
+			for (const error of summary.errors) {
+				row.createEl('div', { text: error, cls: 'data-fetcher-refresh-summary-error' });
+			}
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+interface HistoryViewOptions {
+	/** Apply the block's `path` and `transform` to a snapshot */
+	select: (data: any) => any;
+	/** Table rows of selected data, or null when it is not a table */
+	tableData: (data: any) => { headers: string[]; rows: Record<string, any>[] } | null;
+}
+
+class HistoryModal extends Modal {
+	private snapshots: QueryResult[];
+	private preferRows: boolean;
+	private options: HistoryViewOptions;
+	private fromIndex = 1;
+	private toIndex = 0;
+	private mode: 'structure' | 'rows' = 'structure';
+	private keyField = '';
+	private controlsEl: HTMLElement;
+	private diffEl: HTMLElement;
+
+	constructor(app: App, snapshots: QueryResult[], preferRows: boolean, options: HistoryViewOptions) {
+		super(app);
+		this.snapshots = snapshots;
+		this.preferRows = preferRows;
+		this.options = options;
+	}
+
+	private snapshotLabel(index: number): string {
+		const snapshot = this.snapshots[index];
+		return `${index === 0 ? 'Latest' : `#${index + 1}`} · ${new Date(snapshot.timestamp).toLocaleString()}`;
+	}
+
+	private formatValue(value: any): string {
+		const text = value === undefined ? '' : JSON.stringify(value);
+		return text.length > 80 ? `${text.substring(0, 79)}…` : text;
+	}
+
+	private renderEntry(listEl: HTMLElement, entry: DiffEntry): void {
+		const row = listEl.createEl('div', { cls: `data-fetcher-diff-entry is-${entry.kind}` });
+		row.createSpan({ text: entry.kind === 'added' ? '+ ' : entry.kind === 'removed' ? '− ' : '~ ', cls: 'data-fetcher-diff-sign' });
+		row.createSpan({ text: entry.path, cls: 'data-fetcher-diff-path' });
+		const detail = entry.kind === 'added'
+			? this.formatValue(entry.after)
+			: entry.kind === 'removed'
+				? this.formatValue(entry.before)
+				: `${this.formatValue(entry.before)} → ${this.formatValue(entry.after)}`;
+		row.createSpan({ text: `  ${detail}`, cls: 'data-fetcher-diff-value' });
+	}
+
+	private renderControls(): void {
+		this.controlsEl.empty();
+
+		const addSnapshotDropdown = (name: string, value: number, onChange: (index: number) => void) => {
+			new Setting(this.controlsEl)
+				.setName(name)
+				.addDropdown(dropdown => {
+					this.snapshots.forEach((_snapshot, index) => dropdown.addOption(String(index), this.snapshotLabel(index)));
+					dropdown.setValue(String(value)).onChange(selected => {
+						onChange(Number(selected));
+						// The row key choices follow the columns of the compared snapshots
+						this.renderControls();
+						this.renderDiff();
+					});
+				});
+		};
+		addSnapshotDropdown('From', this.fromIndex, index => {
+			this.fromIndex = index;
+		});
+		addSnapshotDropdown('To', this.toIndex, index => {
+			this.toIndex = index;
+		});
+
+		const headers = this.options.tableData(this.options.select(this.snapshots[this.toIndex].data))?.headers || [];
+		if (headers.length === 0) {
+			this.mode = 'structure';
+			return;
+		}
+
+		new Setting(this.controlsEl)
+			.setName('Compare')
+			.addDropdown(dropdown => dropdown
+				.addOption('structure', 'Paths')
+				.addOption('rows', 'Rows')
+				.setValue(this.mode)
+				.onChange(value => {
+					this.mode = value as 'structure' | 'rows';
+					this.renderControls();
+					this.renderDiff();
+				}));
+
+		if (this.mode === 'rows') {
+			if (!headers.includes(this.keyField)) {
+				this.keyField = headers.includes('id') ? 'id' : headers[0];
+			}
+			new Setting(this.controlsEl)
+				.setName('Match rows by')
+				.addDropdown(dropdown => {
+					headers.forEach(header => dropdown.addOption(header, header));
+					dropdown.setValue(this.keyField).onChange(value => {
+						this.keyField = value;
+						this.renderDiff();
+					});
+				});
+		}
+	}
+
+	private renderDiff(): void {
+		this.diffEl.empty();
+
+		try {
+			const before = this.options.select(this.snapshots[this.fromIndex].data);
+			const after = this.options.select(this.snapshots[this.toIndex].data);
+
+			if (this.mode === 'rows') {
+				const beforeTable = this.options.tableData(before);
+				const afterTable = this.options.tableData(after);
+				if (beforeTable && afterTable) {
+					this.renderRowDiff(diffRows(beforeTable.rows, afterTable.rows, this.keyField));
+					return;
+				}
+			}
+
+			const entries = diffJson(before, after);
+			this.diffEl.createEl('div', {
+				text: entries.length === 0
+					? 'No differences.'
+					: `${entries.length}${entries.length >= MAX_DIFF_ENTRIES ? '+' : ''} changed path${entries.length === 1 ? '' : 's'}`,
+				cls: 'data-fetcher-refresh-summary-totals'
+			});
+			for (const entry of entries) {
+				this.renderEntry(this.diffEl, entry);
+			}
+		} catch (error) {
+			this.diffEl.createEl('div', { text: `Error comparing snapshots: ${error.message}`, cls: 'data-fetcher-error' });
+		}
+	}
+
+	private renderRowDiff(diffs: RowDiff[]): void {
+		const count = (kind: string) => diffs.filter(diff => diff.kind === kind).length;
+		this.diffEl.createEl('div', {
+			text: diffs.length === 0
+				? 'No differences.'
+				: `${count('added')} added, ${count('removed')} removed, ${count('changed')} changed rows`,
+			cls: 'data-fetcher-refresh-summary-totals'
+		});
+
+		for (const diff of diffs.slice(0, MAX_DIFF_ENTRIES)) {
+			const rowEl = this.diffEl.createEl('div', { cls: `data-fetcher-diff-row is-${diff.kind}` });
+			rowEl.createEl('div', {
+				text: `${diff.kind === 'added' ? '+' : diff.kind === 'removed' ? '−' : '~'} ${this.keyField} = ${diff.key}`,
+				cls: 'data-fetcher-diff-row-key'
+			});
+			for (const change of diff.changes) {
+				this.renderEntry(rowEl, change);
+			}
+		}
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('data-fetcher-history');
+
+		new Setting(contentEl)
+			.setName('History')
+			.setHeading();
+
+		if (this.snapshots.length < 2) {
+			contentEl.createEl('div', {
+				text: this.snapshots.length === 0
+					? 'No snapshots yet. A snapshot is stored on every fetch whose result changed.'
+					: `One snapshot so far (${this.snapshotLabel(0)}). Another is stored when a later fetch returns different data.`,
+				cls: 'data-fetcher-cache-empty'
+			});
+			return;
+		}
+
+		contentEl.createEl('div', {
+			text: `${this.snapshots.length} snapshots, from ${new Date(this.snapshots[this.snapshots.length - 1].timestamp).toLocaleString()}`,
+			cls: 'data-fetcher-refresh-summary-totals'
+		});
+
+		this.mode = this.preferRows ? 'rows' : 'structure';
+		this.controlsEl = contentEl.createEl('div', { cls: 'data-fetcher-history-controls' });
+		this.diffEl = contentEl.createEl('div', { cls: 'data-fetcher-diff' });
+		this.renderControls();
+		this.renderDiff();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+class SyncPreviewModal extends Modal {
+	private sync: SyncConfig;
+	private actions: SyncAction[];
+	private onApply: () => Promise<void>;
+
+	constructor(app: App, sync: SyncConfig, actions: SyncAction[], onApply: () => Promise<void>) {
+		super(app);
+		this.sync = sync;
+		this.actions = actions;
+		this.onApply = onApply;
+	}
+
+	private renderSection(containerEl: HTMLElement, title: string, actions: SyncAction[], describe: (action: SyncAction) => string): void {
+		if (actions.length === 0) {
+			return;
+		}
+
+		containerEl.createEl('div', { text: `${title} (${actions.length})`, cls: 'data-fetcher-sync-section' });
+		const list = containerEl.createEl('ul', { cls: 'data-fetcher-sync-list' });
+		for (const action of actions.slice(0, SYNC_PREVIEW_LIMIT)) {
+			list.createEl('li', { text: describe(action) });
+		}
+		if (actions.length > SYNC_PREVIEW_LIMIT) {
+			list.createEl('li', { text: `...and ${actions.length - SYNC_PREVIEW_LIMIT} more`, cls: 'data-fetcher-sync-more' });
+		}
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('data-fetcher-sync-preview');
+
+		new Setting(contentEl)
+			.setName(`Sync preview: ${this.sync.folder}`)
+			.setHeading();
+
+		const byKind = (kind: SyncActionKind) => this.actions.filter(action => action.kind === kind);
+		const archiveLabel = this.sync.archive === 'trash' ? 'Delete' : 'Archive';
+		const pending = this.actions.filter(action => action.kind !== 'unchanged').length;
+
+		contentEl.createEl('div', {
+			text: `${byKind('create').length} to create, ${byKind('update').length} to update, `
+				+ `${byKind('archive').length} to ${archiveLabel.toLowerCase()}, ${byKind('unchanged').length} unchanged`,
+			cls: 'data-fetcher-refresh-summary-totals'
+		});
+
+		const body = contentEl.createEl('div', { cls: 'data-fetcher-sync-body' });
+		this.renderSection(body, 'Create', byKind('create'), action => action.path);
+		this.renderSection(body, 'Update', byKind('update'), action => action.remove && action.remove.length > 0
+			? `${action.path} (removes ${action.remove.join(', ')})`
+			: action.path);
+		this.renderSection(body, archiveLabel, byKind('archive'), action => action.target ? `${action.path} → ${action.target}` : action.path);
+
+		if (pending === 0) {
+			body.createEl('div', { text: 'All notes are up to date.', cls: 'data-fetcher-cache-empty' });
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText(`Apply ${pending} change${pending === 1 ? '' : 's'}`)
+				.setCta()
+				.setDisabled(pending === 0)
+				.onClick(async () => {
+					button.setDisabled(true);
+					await this.onApply();
+					this.close();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+class SecretEditorModal extends Modal {
+	private name: string;
+	private onSubmit: (name: string, value: string) => void;
+
+	constructor(app: App, name: string, onSubmit: (name: string, value: string) => void) {
+		super(app);
+		this.name = name;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		let value = '';
+
+		new Setting(contentEl)
+			.setName(this.name ? 'Replace secret' : 'Add secret')
+			.setHeading();
+
+		new Setting(contentEl)
+			.setName('Name')
+			.setDesc('Letters, numbers, ".", "_" or "-"')
+			.addText(text => text
+				.setPlaceholder('GITHUB_TOKEN')
+				.setValue(this.name)
+				.onChange(newName => {
+					this.name = newName.trim();
+				}));
+
+		new Setting(contentEl)
+			.setName('Value')
+			.addText(text => {
+				text.inputEl.type = 'password';
+				text.setPlaceholder('Secret value')
+					.onChange(newValue => {
+						value = newValue;
+					});
+			});
+
+		const actions = contentEl.createEl('div', { cls: 'data-fetcher-endpoint-editor-actions' });
+		actions.createEl('button', { text: 'Cancel' }).addEventListener('click', () => this.close());
+		actions.createEl('button', { text: 'Save', cls: 'mod-cta' }).addEventListener('click', () => {
+			if (!isValidSecretName(this.name)) {
+				new Notice('Secret name may only contain letters, numbers, ".", "_" or "-".');
+				return;
+			}
+			if (!value) {
+				new Notice('Secret value is required.');
+				return;
+			}
+			this.onSubmit(this.name, value);
+			this.close();
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
 class CacheBrowserModal extends Modal {
 	private cacheManager: CacheManager;
 	private entriesContainer: HTMLElement;
@@ -1132,6 +2382,11 @@ class CacheBrowserModal extends Modal {
 		pre.createEl('code', { text });
 	}
 
+	private setPreviewData(payload: any): void {
+		this.previewContainer.empty();
+		new JsonTreeView(this.previewContainer, payload);
+	}
+
 	private renderEntries(): void {
 		const filter = this.filterInput?.value?.trim().toLowerCase() || '';
 		const visibleEntries = this.entries.filter(entry => entry.key.toLowerCase().includes(filter));
@@ -1167,7 +2422,7 @@ class CacheBrowserModal extends Modal {
 					return;
 				}
 
-				this.setPreviewText(JSON.stringify(payload, null, 2));
+				this.setPreviewData(payload);
 			});
 
 			actions.createEl('button', { text: 'Delete' }).addEventListener('click', async () => {
@@ -1288,14 +2543,22 @@ class HeadersModal extends Modal {
 			}
 		});
 		
+		// Literal values are masked; {{secret:NAME}} references are safe to show
 		const valueInput = row.createEl('input', {
 			attr: {
-				type: 'text',
-				placeholder: 'Value',
+				type: value && !containsSecretReference(value) ? 'password' : 'text',
+				placeholder: 'Value or {{secret:NAME}}',
 				value: value
 			}
 		});
 		
+		const revealBtn = row.createEl('button', {text: 'Show'});
+		revealBtn.addEventListener('click', () => {
+			const reveal = valueInput.type === 'password';
+			valueInput.type = reveal ? 'text' : 'password';
+			revealBtn.setText(reveal ? 'Hide' : 'Show');
+		});
+		
 		const deleteBtn = row.createEl('button', {text: 'X'});
 		
 		// Event listeners
@@ -0,0 +1,100 @@
+// Checks YAML parsing of alias query blocks in src/aliasBlock.ts: comments, quoting,
+// duplicate keys and malformed YAML. Run with `npm test`.
+import esbuild from "esbuild";
+import assert from "assert";
+import os from "os";
+import path from "path";
+import { createRequire } from "module";
+import { pathToFileURL } from "url";
+
+// js-yaml stands in for Obsidian's parseYaml
+const yamlPath = createRequire(import.meta.url).resolve("js-yaml");
+const obsidianStub = {
+	name: "obsidian-stub",
+	setup(build) {
+		build.onResolve({ filter: /^obsidian$/ }, () => ({ path: "obsidian", namespace: "stub" }));
+		build.onLoad({ filter: /.*/, namespace: "stub" }, () => ({
+			contents: `import yaml from ${JSON.stringify(yamlPath)}; export const parseYaml = text => yaml.load(text);`,
+			loader: "js",
+			resolveDir: process.cwd(),
+		}));
+	},
+};
+
+const outfile = path.join(os.tmpdir(), "data-fetcher-alias-block.mjs");
+await esbuild.build({
+	entryPoints: ["src/aliasBlock.ts"],
+	bundle: true,
+	format: "esm",
+	platform: "node",
+	outfile,
+	logLevel: "warning",
+	plugins: [obsidianStub],
+});
+const { parseAliasBlock, optionText } = await import(pathToFileURL(outfile).href);
+
+// Block text after the `@alias` line, which is line 1 of the code block
+const parse = (text) => parseAliasBlock(text.split("\n"), 2);
+
+let failures = 0;
+let total = 0;
+const check = (label, fn) => {
+	total++;
+	try {
+		fn();
+	} catch (error) {
+		failures++;
+		console.error(`FAIL ${label}: ${error.message}`);
+	}
+};
+
+check("comment after a value", () => {
+	assert.deepStrictEqual(parse("path: data # selects the list\n# a whole-line comment\nformat: table"), { path: "data", format: "table" });
+});
+
+check("quoted and block values keep #", () => {
+	const options = parse("template: \"Issue #{{number}}\"\nquery: |\n  { viewer { login } } # kept\nid: '#1'");
+	assert.strictEqual(options.template, "Issue #{{number}}");
+	assert.strictEqual(options.query, "{ viewer { login } } # kept\n");
+	assert.strictEqual(options.id, "#1");
+});
+
+check("nested values and lists", () => {
+	assert.deepStrictEqual(parse("variables:\n  login: octocat\n  first: 5\nwatch:\n  - price changes\n  - price > 100"), {
+		variables: { login: "octocat", first: 5 },
+		watch: ["price changes", "price > 100"],
+	});
+});
+
+check("duplicate keys", () => {
+	assert.throws(() => parse("path: items\nformat: table\npath: data"), /^Error: Invalid YAML at line 4, column \d+: duplicated mapping key/);
+});
+
+check("malformed flow mapping", () => {
+	assert.throws(() => parse("path: items\nvariables: {a: 1"), /^Error: Invalid YAML at line \d+, column \d+: /);
+});
+
+check("tab indentation", () => {
+	assert.throws(() => parse("variables:\n\tlogin: octocat"), /^Error: Invalid YAML at line 3, column \d+: /);
+});
+
+check("lines without keys", () => {
+	assert.throws(() => parse("just some text"), /must be `key: value` options/);
+});
+
+check("unquoted {...} in a text option", () => {
+	const options = parse("query: {viewer}");
+	assert.throws(() => optionText(options.query, "query"), /`query` must be text/);
+});
+
+check("text option values", () => {
+	assert.strictEqual(optionText(10, "refresh"), "10");
+	assert.strictEqual(optionText(parse("file: 2024-01-01").file, "file"), "2024-01-01");
+	assert.strictEqual(optionText(undefined, "id"), "");
+});
+
+if (failures > 0) {
+	console.error(`${failures} of ${total} alias block checks failed`);
+	process.exit(1);
+}
+console.log(`${total} alias block checks passed`);
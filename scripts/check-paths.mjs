@@ -0,0 +1,120 @@
+// Checks src/pathQuery.ts against the dotted path resolution used before path expressions,
+// plus a few expression examples from the README. Run with `npm test`.
+import esbuild from "esbuild";
+import assert from "assert";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+
+const outfile = path.join(os.tmpdir(), "data-fetcher-path-query.mjs");
+await esbuild.build({
+	entryPoints: ["src/pathQuery.ts"],
+	bundle: true,
+	format: "esm",
+	platform: "neutral",
+	outfile,
+	logLevel: "warning",
+});
+const { selectPath } = await import(pathToFileURL(outfile).href);
+
+// Path resolution before path expressions (selectDataByPath in 1.1.2)
+function legacySelect(data, targetPath) {
+	const resolve = (root) => {
+		let current = root;
+		for (const segment of targetPath.split(".").map(s => s.trim()).filter(Boolean)) {
+			if (current === null || current === undefined) {
+				throw new Error(`Path "${targetPath}" not found`);
+			}
+			if (Array.isArray(current)) {
+				const index = Number(segment);
+				if (!Number.isInteger(index) || index < 0 || index >= current.length) {
+					throw new Error(`Invalid array index "${segment}" in path "${targetPath}"`);
+				}
+				current = current[index];
+				continue;
+			}
+			if (typeof current === "object" && segment in current) {
+				current = current[segment];
+				continue;
+			}
+			throw new Error(`Path "${targetPath}" not found`);
+		}
+		return current;
+	};
+	try {
+		return resolve(data);
+	} catch (error) {
+		if (data && typeof data === "object" && data.data && typeof data.data === "object") {
+			return resolve(data.data);
+		}
+		throw error;
+	}
+}
+
+const jsonLd = { "@context": "https://schema.org", "@type": "Person", name: "Ada" };
+const rates = { rates: { "2024-01": { usd: 1.1 }, "2024-02": { usd: 1.2 } } };
+const repo = {
+	items: [{ name: "a", "full-name": "x/a", owner: { login: "x" } }, { name: "b", tags: ["t1", "t2"] }],
+	user: { "display name": "Ada", $schema: "v1" },
+	counts: { 0: "zero", 10: "ten" },
+};
+const envelope = { data: { viewer: { login: "octocat", repos: [{ name: "r1" }] } } };
+
+const legacyCases = [
+	[jsonLd, "@type"],
+	[jsonLd, "@context"],
+	[rates, "rates.2024-01"],
+	[rates, "rates.2024-02.usd"],
+	[repo, "items.0.name"],
+	[repo, "items.1.tags.1"],
+	[repo, "items.0.full-name"],
+	[repo, "items.0.owner.login"],
+	[repo, "user.display name"],
+	[repo, "user.$schema"],
+	[repo, "counts.10"],
+	[repo, " items . 1 . name "],
+	[envelope, "viewer.login"],
+	[envelope, "viewer.repos.0.name"],
+	[envelope, "data.viewer.login"],
+];
+
+let failures = 0;
+const check = (label, fn) => {
+	try {
+		fn();
+	} catch (error) {
+		failures++;
+		console.error(`FAIL ${label}: ${error.message}`);
+	}
+};
+
+for (const [data, dottedPath] of legacyCases) {
+	check(`legacy "${dottedPath}"`, () => assert.deepStrictEqual(selectPath(data, dottedPath), legacySelect(data, dottedPath)));
+}
+
+for (const [data, dottedPath] of [[repo, "items.5.name"], [repo, "missing.key"], [jsonLd, "@id"]]) {
+	check(`legacy error "${dottedPath}"`, () => {
+		assert.throws(() => legacySelect(data, dottedPath));
+		assert.throws(() => selectPath(data, dottedPath));
+	});
+}
+
+const expressionCases = [
+	[repo, "items[*].name", ["a", "b"]],
+	[repo, "items[?name == 'b'].tags[0]", ["t1"]],
+	[repo, "items[-1].name", "b"],
+	[repo, "user.\"display name\"", "Ada"],
+	[rates, "rates.\"2024-01\".usd", 1.1],
+	[envelope, "viewer.repos[0].name", "r1"],
+];
+
+for (const [data, expression, expected] of expressionCases) {
+	check(`expression "${expression}"`, () => assert.deepStrictEqual(selectPath(data, expression), expected));
+}
+
+const total = legacyCases.length + 3 + expressionCases.length;
+if (failures > 0) {
+	console.error(`${failures} of ${total} path checks failed`);
+	process.exit(1);
+}
+console.log(`${total} path checks passed`);
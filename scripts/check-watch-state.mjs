@@ -0,0 +1,113 @@
+// Checks that watch rules of blocks sharing one request keep separate state in src/cacheManager.ts.
+// Run with `npm test`.
+import esbuild from "esbuild";
+import assert from "assert";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+
+// CacheManager only needs TFolder from the Obsidian API
+const obsidianStub = {
+	name: "obsidian-stub",
+	setup(build) {
+		build.onResolve({ filter: /^obsidian$/ }, () => ({ path: "obsidian", namespace: "stub" }));
+		build.onLoad({ filter: /.*/, namespace: "stub" }, () => ({ contents: "export class TFolder {}", loader: "js" }));
+	},
+};
+
+const outfile = path.join(os.tmpdir(), "data-fetcher-watch-state.mjs");
+await esbuild.build({
+	stdin: {
+		contents: "export { CacheManager } from './src/cacheManager'; export { parseWatchRules, evaluateWatchRules } from './src/watchRules';",
+		resolveDir: process.cwd(),
+		loader: "ts",
+	},
+	bundle: true,
+	format: "esm",
+	platform: "neutral",
+	outfile,
+	logLevel: "warning",
+	plugins: [obsidianStub],
+});
+const { CacheManager, parseWatchRules, evaluateWatchRules } = await import(pathToFileURL(outfile).href);
+
+// In-memory vault adapter
+function createApp() {
+	const files = new Map();
+	return {
+		files,
+		vault: {
+			getAbstractFileByPath: () => null,
+			createFolder: async () => undefined,
+			adapter: {
+				exists: async (filePath) => files.has(filePath) || [...files.keys()].some(key => key.startsWith(`${filePath}/`)),
+				read: async (filePath) => files.get(filePath),
+				write: async (filePath, content) => void files.set(filePath, content),
+				mkdir: async () => undefined,
+			},
+		},
+	};
+}
+
+const request = { endpoint: "prices", type: "rest", url: "https://example.com/price", method: "GET" };
+const priceChanges = { ...request, watch: parseWatchRules(["price changes"]) };
+const priceAbove = { ...request, watch: parseWatchRules(["price > 100"]) };
+
+// Same steps as executeAndStore: read the block's state, store the new result, then evaluate
+async function runBlock(cache, query, sourcePath, data) {
+	const result = { data, timestamp: Date.now() };
+	const previous = await cache.readWatchState(query, sourcePath);
+	await cache.saveWatchState(query, sourcePath, result);
+	return evaluateWatchRules(query.watch, previous?.data, data, !!previous).map(match => match.message);
+}
+
+let failures = 0;
+let total = 0;
+const check = async (label, fn) => {
+	total++;
+	try {
+		await fn();
+	} catch (error) {
+		failures++;
+		console.error(`FAIL ${label}: ${error.message}`);
+	}
+};
+
+await check("blocks with different rules on one request", async () => {
+	const cache = new CacheManager(createApp(), { settings: {} });
+	assert.deepStrictEqual(await runBlock(cache, priceChanges, "Prices.md", { price: 90 }), []);
+	assert.deepStrictEqual(await runBlock(cache, priceAbove, "Prices.md", { price: 90 }), []);
+	// The second block must not compare against the state the first one just wrote
+	assert.deepStrictEqual(await runBlock(cache, priceAbove, "Prices.md", { price: 120 }), ["price > 100 (price is 120)"]);
+	assert.deepStrictEqual(await runBlock(cache, priceChanges, "Prices.md", { price: 120 }), ["price changed: 90 → 120"]);
+});
+
+await check("one block in two notes", async () => {
+	const cache = new CacheManager(createApp(), { settings: {} });
+	await runBlock(cache, priceChanges, "A.md", { price: 90 });
+	await runBlock(cache, priceChanges, "B.md", { price: 90 });
+	assert.deepStrictEqual(await runBlock(cache, priceChanges, "A.md", { price: 95 }), ["price changed: 90 → 95"]);
+	assert.deepStrictEqual(await runBlock(cache, priceChanges, "B.md", { price: 95 }), ["price changed: 90 → 95"]);
+});
+
+await check("same block runs again", async () => {
+	const cache = new CacheManager(createApp(), { settings: {} });
+	await runBlock(cache, priceAbove, "Prices.md", { price: 120 });
+	// A condition that already held when last checked does not fire again
+	assert.deepStrictEqual(await runBlock(cache, priceAbove, "Prices.md", { price: 130 }), []);
+});
+
+await check("blocks with different paths on one request", async () => {
+	const app = createApp();
+	const cache = new CacheManager(app, { settings: {} });
+	await cache.saveWatchState({ ...priceChanges, path: "items" }, "Prices.md", { data: 1, timestamp: 1 });
+	await cache.saveWatchState({ ...priceChanges, path: "total" }, "Prices.md", { data: 2, timestamp: 2 });
+	assert.strictEqual(app.files.size, 2);
+	assert.strictEqual(await cache.readWatchState(priceChanges, "Prices.md"), null);
+});
+
+if (failures > 0) {
+	console.error(`${failures} of ${total} watch state checks failed`);
+	process.exit(1);
+}
+console.log(`${total} watch state checks passed`);
@@ -0,0 +1,89 @@
+import { parseYaml } from 'obsidian';
+
+function describeYamlError(error: any, firstLine: number): string {
+    let line: number | undefined;
+    let column: number | undefined;
+    let reason = String(error?.message || error).split('\n')[0];
+
+    if (error?.mark && typeof error.mark.line === 'number') {
+        // js-yaml positions are 0-based
+        line = error.mark.line + 1;
+        column = error.mark.column + 1;
+        reason = error.reason || reason;
+    } else if (Array.isArray(error?.linePos) && error.linePos[0]) {
+        line = error.linePos[0].line;
+        column = error.linePos[0].col;
+        reason = reason.replace(/\s+at line \d+, column \d+:?$/, '');
+    } else {
+        // Errors rethrown without their position object still name it in the message
+        const position = reason.match(/\((\d+):(\d+)\)$/) || reason.match(/\s+at line (\d+), column (\d+):?$/);
+        if (position) {
+            line = Number(position[1]);
+            column = Number(position[2]);
+            reason = reason.substring(0, position.index).trim();
+        }
+    }
+
+    if (line === undefined) {
+        return `Invalid YAML: ${reason}`;
+    }
+    return `Invalid YAML at line ${line + firstLine - 1}, column ${column}: ${reason}`;
+}
+
+/**
+ * Parse the lines after the `@alias` line as YAML, so block scalars (`query: |`), nested
+ * objects and lists work. Values are used exactly as YAML reads them: `#` after a space starts
+ * a comment and `{`/`[` start a mapping or list, so such text must be quoted or written with `|`.
+ * `firstLine` is the line number of `lines[0]` in the code block, used in error messages.
+ */
+export function parseAliasBlock(lines: string[], firstLine: number): Record<string, any> {
+    const text = lines.join('\n');
+    if (!text.trim()) {
+        return {};
+    }
+
+    let parsed: any;
+    try {
+        parsed = parseYaml(text);
+    } catch (error) {
+        throw new Error(describeYamlError(error, firstLine));
+    }
+
+    if (parsed === null || parsed === undefined) {
+        return {};
+    }
+    if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('Lines after the alias must be `key: value` options');
+    }
+    return parsed;
+}
+
+/**
+ * Text of a single-value option. YAML may read `10` as a number or `2024-01-01` as a date.
+ * A mapping means unquoted `{...}` text, which is reported instead of being turned into JSON.
+ */
+export function optionText(value: any, name: string): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    if (value instanceof Date) {
+        return value.toISOString().replace(/T00:00:00\.000Z$/, '');
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => optionText(item, name)).join(', ');
+    }
+    if (typeof value === 'object') {
+        throw new Error(`\`${name}\` must be text. Quote the value or use \`${name}: |\` when it starts with \`{\``);
+    }
+    return String(value).trim();
+}
+
+/**
+ * A YAML list of single-key mappings (`- name: value`) as one object, for `properties` and `columns`
+ */
+export function optionMapping(value: any): any {
+    if (!Array.isArray(value) || !value.every(item => item && typeof item === 'object' && !Array.isArray(item))) {
+        return value === null || value === undefined ? '' : value;
+    }
+    return Object.assign({}, ...value);
+}
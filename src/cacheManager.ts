@@ -1,10 +1,13 @@
-import { App, TFile, TFolder } from 'obsidian';
+import { App, TFolder } from 'obsidian';
 import { QueryParams, QueryResult } from './queryEngine';
 
 export class CacheManager {
     private app: App;
     private plugin: any;
     private cacheFolder: string = '.data-fetcher-cache';
+    private historyFolder = '.data-fetcher-cache/history';
+    // Kept when the cache is cleared, so watch rules still compare against the last checked value
+    private watchFolder = '.data-fetcher-cache/watch';
 
     constructor(app: App, plugin: any) {
         this.app = app;
@@ -28,9 +31,11 @@ export class CacheManager {
     }
 
     /**
-     * Generate a cache key for a query
+     * Generate a cache key for a query. Also used to deduplicate identical in-flight requests.
+     * Headers are hashed after template interpolation but before `{{secret:NAME}}` references
+     * are resolved, so per-note header values get their own entry and secrets stay out of the key.
      */
-    private generateCacheKey(params: QueryParams): string {
+    generateCacheKey(params: QueryParams): string {
         // Create a unique key based on query parameters
         const stringToHash = JSON.stringify({
             url: params.url,
@@ -38,7 +43,9 @@ export class CacheManager {
             method: params.method,
             body: params.body,
             query: params.query,
-            variables: params.variables
+            variables: params.variables,
+            headers: params.headers,
+            paginate: params.paginate
         });
         
         return this.hashString(stringToHash);
@@ -57,29 +64,36 @@ export class CacheManager {
     }
 
     /**
-     * Get cached result for a query
+     * Get cached result for a query.
+     * With a stale-while-revalidate policy an expired entry is returned with `stale: true`.
      */
     async getFromCache(params: QueryParams): Promise<QueryResult | null> {
         try {
-            const cacheKey = this.generateCacheKey(params);
-            const cacheFilePath = `${this.cacheFolder}/${cacheKey}.json`;
-            
-            const cacheFile = this.app.vault.getAbstractFileByPath(cacheFilePath);
-            
-            if (!(cacheFile instanceof TFile)) {
+            const policy = params.cache;
+            if (policy && policy.mode === 'none') {
                 return null;
             }
-            
-            // Read the cache file
-            const cacheContent = await this.app.vault.read(cacheFile);
-            const cacheData = JSON.parse(cacheContent);
+
+            const cacheData = await this.readCacheEntry(this.generateCacheKey(params));
+            if (!cacheData) {
+                return null;
+            }
+
+            if (policy && policy.mode === 'forever') {
+                return cacheData;
+            }
             
             // Check if cache is expired
             const now = Date.now();
             const cacheAge = now - cacheData.timestamp;
-            const cacheDurationMs = this.plugin.settings.cacheDuration * 60 * 1000;
+            const cacheDurationMs = policy && policy.ttlMs !== undefined
+                ? policy.ttlMs
+                : this.plugin.settings.cacheDuration * 60 * 1000;
             
             if (cacheAge > cacheDurationMs) {
+                if (policy && policy.staleWhileRevalidate) {
+                    return { ...cacheData, stale: true };
+                }
                 return null; // Cache is expired
             }
             
@@ -90,22 +104,160 @@ export class CacheManager {
         }
     }
 
+    /**
+     * Get the last successful result for a query regardless of its age or cache policy
+     */
+    async getLastSuccessful(params: QueryParams): Promise<QueryResult | null> {
+        const cacheData = await this.readCacheEntry(this.generateCacheKey(params));
+        if (!cacheData || cacheData.error) {
+            return null;
+        }
+        return cacheData;
+    }
+
     /**
      * Save result to cache
      */
     async saveToCache(params: QueryParams, result: QueryResult): Promise<void> {
+        if (params.cache && params.cache.mode === 'none') {
+            return;
+        }
+
+        // Failed fetches never overwrite the last good payload
+        if (result.error) {
+            return;
+        }
+
         try {
             await this.ensureCacheFolder();
             const cacheKey = this.generateCacheKey(params);
             const cacheFilePath = `${this.cacheFolder}/${cacheKey}.json`;
+            const storedResult: QueryResult = { ...result };
+            delete storedResult.stale;
+            delete storedResult.fallbackError;
             
             // Create or overwrite the cache file
-            await this.app.vault.adapter.write(cacheFilePath, JSON.stringify(result));
+            await this.app.vault.adapter.write(cacheFilePath, JSON.stringify(storedResult));
         } catch (error) {
             console.error('Error saving to cache:', error);
         }
     }
 
+    /**
+     * History belongs to a block, not only to its request: blocks that share a request but
+     * differ in `id`, `path` or `transform` keep separate snapshots
+     */
+    private historyFilePath(params: QueryParams): string {
+        const historyKey = this.hashString(JSON.stringify({
+            cacheKey: this.generateCacheKey(params),
+            id: params.id,
+            path: params.path,
+            transform: params.transform
+        }));
+        return `${this.historyFolder}/${historyKey}.json`;
+    }
+
+    /**
+     * Snapshots kept by `history: N`, newest first
+     */
+    async readHistory(params: QueryParams): Promise<QueryResult[]> {
+        try {
+            const historyFilePath = this.historyFilePath(params);
+            if (!(await this.app.vault.adapter.exists(historyFilePath))) {
+                return [];
+            }
+
+            const parsed = JSON.parse(await this.app.vault.adapter.read(historyFilePath));
+            return Array.isArray(parsed) ? parsed : [];
+        } catch (error) {
+            console.error('Error reading history:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Add a successful result to the query's history, keeping the newest `params.history` snapshots.
+     * A result identical to the latest snapshot is not stored again.
+     */
+    async saveToHistory(params: QueryParams, result: QueryResult): Promise<void> {
+        if (!params.history || result.error) {
+            return;
+        }
+
+        try {
+            const snapshots = await this.readHistory(params);
+            if (snapshots.length > 0 && JSON.stringify(snapshots[0].data) === JSON.stringify(result.data)) {
+                return;
+            }
+
+            snapshots.unshift({ data: result.data, timestamp: result.timestamp });
+
+            await this.ensureCacheFolder();
+            if (!(await this.app.vault.adapter.exists(this.historyFolder))) {
+                await this.app.vault.adapter.mkdir(this.historyFolder);
+            }
+            await this.app.vault.adapter.write(
+                this.historyFilePath(params),
+                JSON.stringify(snapshots.slice(0, params.history))
+            );
+        } catch (error) {
+            console.error('Error saving history:', error);
+        }
+    }
+
+    /**
+     * Watch state belongs to one block: the request, the note it is in, its `id` and its rules.
+     * Blocks that share a request but watch different values never compare against each other's state.
+     */
+    private watchFilePath(params: QueryParams, sourcePath?: string): string {
+        const watchKey = this.hashString(JSON.stringify({
+            cacheKey: this.generateCacheKey(params),
+            sourcePath: sourcePath || '',
+            id: params.id,
+            path: params.path,
+            transform: params.transform,
+            watch: params.watch
+        }));
+        return `${this.watchFolder}/${watchKey}.json`;
+    }
+
+    /**
+     * Result that a block's watch rules last checked, independent of the cache policy
+     */
+    async readWatchState(params: QueryParams, sourcePath?: string): Promise<QueryResult | null> {
+        try {
+            const watchFilePath = this.watchFilePath(params, sourcePath);
+            if (!(await this.app.vault.adapter.exists(watchFilePath))) {
+                return null;
+            }
+
+            const parsed = JSON.parse(await this.app.vault.adapter.read(watchFilePath));
+            return parsed && typeof parsed === 'object' && 'timestamp' in parsed ? parsed as QueryResult : null;
+        } catch (error) {
+            console.error('Error reading watch state:', error);
+            return null;
+        }
+    }
+
+    async saveWatchState(params: QueryParams, sourcePath: string | undefined, result: QueryResult): Promise<void> {
+        if (result.error) {
+            return;
+        }
+
+        try {
+            await this.ensureCacheFolder();
+            if (!(await this.app.vault.adapter.exists(this.watchFolder))) {
+                await this.app.vault.adapter.mkdir(this.watchFolder);
+            }
+            await this.app.vault.adapter.write(
+                this.watchFilePath(params, sourcePath),
+                JSON.stringify({ data: result.data, timestamp: result.timestamp })
+            );
+        } catch (error) {
+            console.error('Error saving watch state:', error);
+        }
+    }
+
     /**
      * Clear all cache files using the adapter's remove method
      */
@@ -124,6 +276,10 @@ export class CacheManager {
                     console.error(`Failed to delete cache file ${file}:`, err);
                 }
             }
+
+            if (await this.app.vault.adapter.exists(this.historyFolder)) {
+                await this.app.vault.adapter.rmdir(this.historyFolder, true);
+            }
         } catch (error) {
             console.error("Error clearing cache:", error);
             throw error; // Re-throw to be handled by the caller
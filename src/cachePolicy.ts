@@ -0,0 +1,46 @@
+import { parseDuration } from './durations';
+
+export interface CachePolicy {
+    mode: 'ttl' | 'none' | 'forever';
+    ttlMs?: number; // only for mode "ttl"
+    staleWhileRevalidate: boolean;
+}
+
+const STALE_WHILE_REVALIDATE_FLAGS = ['swr', 'stale-while-revalidate'];
+
+/**
+ * Parse a `cache` option: a duration (`1m`, `7d`), `none` or `forever`,
+ * optionally followed by `swr` / `stale-while-revalidate`, e.g. `cache: 10m swr`
+ */
+export function parseCachePolicy(value: string): CachePolicy {
+    const tokens = value.trim().toLowerCase().split(/[\s,]+/).filter(Boolean);
+    if (tokens.length === 0) {
+        throw new Error('Cache option cannot be empty');
+    }
+
+    const staleWhileRevalidate = tokens.some(token => STALE_WHILE_REVALIDATE_FLAGS.includes(token));
+    const lifetimeTokens = tokens.filter(token => !STALE_WHILE_REVALIDATE_FLAGS.includes(token));
+
+    if (lifetimeTokens.length === 0) {
+        // `cache: swr` keeps the global cache duration
+        return { mode: 'ttl', staleWhileRevalidate };
+    }
+
+    if (lifetimeTokens.length > 1) {
+        throw new Error(`Invalid cache option "${value}". Use a duration, "none" or "forever", optionally followed by "swr"`);
+    }
+
+    const lifetime = lifetimeTokens[0];
+    if (lifetime === 'none' || lifetime === 'no-cache') {
+        if (staleWhileRevalidate) {
+            throw new Error('"swr" cannot be combined with "cache: none"');
+        }
+        return { mode: 'none', staleWhileRevalidate: false };
+    }
+
+    if (lifetime === 'forever') {
+        return { mode: 'forever', staleWhileRevalidate: false };
+    }
+
+    return { mode: 'ttl', ttlMs: parseDuration(lifetime), staleWhileRevalidate };
+}
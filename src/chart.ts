@@ -0,0 +1,369 @@
+import { compileExpression } from './pathQuery';
+
+export type ChartKind = 'line' | 'bar' | 'pie' | 'sparkline';
+
+export interface ChartConfig {
+    kind: ChartKind;
+    x?: string; // label field; row numbers when omitted
+    y: string[]; // one field per series
+}
+
+export interface ChartSeries {
+    name: string;
+    values: Array<number | null>;
+}
+
+export interface ChartData {
+    labels: string[];
+    series: ChartSeries[];
+}
+
+const CHART_KINDS: ChartKind[] = ['line', 'bar', 'pie', 'sparkline'];
+const SERIES_COLORS = 8; // matches the data-fetcher-series-N classes in styles.css
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const WIDTH = 600;
+const HEIGHT = 300;
+const MARGIN = { top: 16, right: 16, bottom: 40, left: 56 };
+const MAX_X_LABELS = 8;
+const SPARKLINE_WIDTH = 160;
+const SPARKLINE_HEIGHT = 32;
+const PIE_RADIUS = 120;
+
+function splitFields(value: any): string[] {
+    const items = Array.isArray(value) ? value : String(value ?? '').split(',');
+    return items.map(item => String(item).trim()).filter(Boolean);
+}
+
+/**
+ * Build a chart config from the `chart`, `x` and `y` options
+ */
+export function parseChartConfig(options: { chart?: any; x?: any; y?: any }): ChartConfig {
+    const kind = String(options.chart || 'line').trim().toLowerCase() as ChartKind;
+    if (!CHART_KINDS.includes(kind)) {
+        throw new Error(`Unsupported chart "${options.chart}". Use ${CHART_KINDS.join(', ')}`);
+    }
+
+    const y = splitFields(options.y);
+    if (y.length === 0) {
+        throw new Error('Charts need `y` with at least one field, e.g. y: price, volume');
+    }
+    if (kind === 'pie' && y.length > 1) {
+        throw new Error('Pie charts take a single `y` field');
+    }
+
+    const x = options.x !== undefined && String(options.x).trim() ? String(options.x).trim() : undefined;
+    for (const field of x ? [x, ...y] : y) {
+        compileExpression(field);
+    }
+
+    return { kind, x, y };
+}
+
+function toNumber(value: any): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (typeof value === 'string' && value.trim() !== '') {
+        const parsed = Number(value.trim());
+        return Number.isFinite(parsed) ? parsed : null;
+    }
+    return null;
+}
+
+/**
+ * Read labels and series values from rows. Values that are not numbers become gaps.
+ */
+export function buildChartData(rows: any[], config: ChartConfig): ChartData {
+    if (!Array.isArray(rows) || rows.length === 0) {
+        throw new Error('Charts need a non-empty list of rows. Use path to select one');
+    }
+
+    const readLabel = config.x ? compileExpression(config.x) : null;
+    const labels = rows.map((row, index) => {
+        if (!readLabel) return String(index + 1);
+        const label = readLabel(row);
+        if (label === null || label === undefined) return '';
+        return typeof label === 'object' ? JSON.stringify(label) : String(label);
+    });
+
+    const series = config.y.map(field => {
+        const readValue = compileExpression(field);
+        return { name: field, values: rows.map(row => toNumber(readValue(row))) };
+    });
+
+    if (series.every(entry => entry.values.every(value => value === null))) {
+        throw new Error(`No numeric values found for ${config.y.map(field => `"${field}"`).join(', ')}`);
+    }
+
+    return { labels, series };
+}
+
+function svgEl<K extends keyof SVGElementTagNameMap>(parent: Element, tag: K, attrs: Record<string, string | number> = {}): SVGElementTagNameMap[K] {
+    const el = document.createElementNS(SVG_NS, tag);
+    for (const [name, value] of Object.entries(attrs)) {
+        el.setAttribute(name, String(value));
+    }
+    parent.appendChild(el);
+    return el;
+}
+
+function addTitle(el: Element, text: string): void {
+    svgEl(el, 'title').textContent = text;
+}
+
+function seriesClass(index: number): string {
+    return `data-fetcher-series-${index % SERIES_COLORS}`;
+}
+
+function formatTick(value: number): string {
+    return new Intl.NumberFormat(undefined, { notation: Math.abs(value) >= 1e6 ? 'compact' : 'standard', maximumFractionDigits: 2 }).format(value);
+}
+
+/**
+ * Round axis bounds outward to a "nice" step (1, 2 or 5 × 10^n)
+ */
+function niceScale(min: number, max: number, ticks = 5): { min: number; max: number; step: number } {
+    if (min === max) {
+        const pad = min === 0 ? 1 : Math.abs(min) * 0.1;
+        min -= pad;
+        max += pad;
+    }
+    const rough = (max - min) / ticks;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+    const step = [1, 2, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= rough) as number;
+    return { min: Math.floor(min / step) * step, max: Math.ceil(max / step) * step, step };
+}
+
+function valueRange(data: ChartData, includeZero: boolean): { min: number; max: number } {
+    const values = data.series.flatMap(entry => entry.values).filter((value): value is number => value !== null);
+    let min = Math.min(...values);
+    let max = Math.max(...values);
+    if (includeZero) {
+        min = Math.min(0, min);
+        max = Math.max(0, max);
+    }
+    return { min, max };
+}
+
+function renderLegend(containerEl: HTMLElement, names: string[]): void {
+    const legend = containerEl.createDiv({ cls: 'data-fetcher-chart-legend' });
+    names.forEach((name, index) => {
+        const item = legend.createSpan({ cls: 'data-fetcher-chart-legend-item' });
+        item.createSpan({ cls: `data-fetcher-chart-swatch ${seriesClass(index)}` });
+        item.appendText(name);
+    });
+}
+
+function renderAxes(svg: SVGSVGElement, data: ChartData, scale: { min: number; max: number; step: number }, xAt: (index: number) => number, yAt: (value: number) => number): void {
+    const axes = svgEl(svg, 'g', { class: 'data-fetcher-chart-axis' });
+
+    for (let tick = scale.min; tick <= scale.max + scale.step / 2; tick += scale.step) {
+        const y = yAt(tick);
+        svgEl(axes, 'line', { x1: MARGIN.left, x2: WIDTH - MARGIN.right, y1: y, y2: y, class: 'data-fetcher-chart-grid' });
+        const label = svgEl(axes, 'text', { x: MARGIN.left - 6, y: y + 4, 'text-anchor': 'end' });
+        label.textContent = formatTick(tick);
+    }
+
+    const every = Math.max(1, Math.ceil(data.labels.length / MAX_X_LABELS));
+    data.labels.forEach((text, index) => {
+        if (index % every !== 0) return;
+        const label = svgEl(axes, 'text', { x: xAt(index), y: HEIGHT - MARGIN.bottom + 16, 'text-anchor': 'middle' });
+        label.textContent = text.length > 14 ? `${text.substring(0, 13)}…` : text;
+    });
+
+    svgEl(axes, 'line', {
+        x1: MARGIN.left, x2: WIDTH - MARGIN.right,
+        y1: HEIGHT - MARGIN.bottom, y2: HEIGHT - MARGIN.bottom,
+        class: 'data-fetcher-chart-baseline'
+    });
+}
+
+function linePath(values: Array<number | null>, xAt: (index: number) => number, yAt: (value: number) => number): string {
+    let path = '';
+    let drawing = false;
+    values.forEach((value, index) => {
+        if (value === null) {
+            drawing = false;
+            return;
+        }
+        path += `${drawing ? 'L' : 'M'}${xAt(index).toFixed(1)},${yAt(value).toFixed(1)} `;
+        drawing = true;
+    });
+    return path.trim();
+}
+
+function renderLineChart(containerEl: HTMLElement, data: ChartData): void {
+    const range = valueRange(data, false);
+    const scale = niceScale(range.min, range.max);
+    const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+    const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+    const xAt = (index: number) => MARGIN.left + (data.labels.length === 1 ? plotWidth / 2 : (index / (data.labels.length - 1)) * plotWidth);
+    const yAt = (value: number) => MARGIN.top + (1 - (value - scale.min) / (scale.max - scale.min)) * plotHeight;
+
+    const svg = svgEl(containerEl, 'svg', { viewBox: `0 0 ${WIDTH} ${HEIGHT}`, class: 'data-fetcher-chart', role: 'img' });
+    renderAxes(svg, data, scale, xAt, yAt);
+
+    data.series.forEach((entry, seriesIndex) => {
+        const group = svgEl(svg, 'g', { class: seriesClass(seriesIndex) });
+        svgEl(group, 'path', { d: linePath(entry.values, xAt, yAt), class: 'data-fetcher-chart-line' });
+        entry.values.forEach((value, index) => {
+            if (value === null) return;
+            const point = svgEl(group, 'circle', { cx: xAt(index), cy: yAt(value), r: 3, class: 'data-fetcher-chart-point' });
+            addTitle(point, `${entry.name} · ${data.labels[index]}: ${value}`);
+        });
+    });
+
+    if (data.series.length > 1) {
+        renderLegend(containerEl, data.series.map(entry => entry.name));
+    }
+}
+
+function renderBarChart(containerEl: HTMLElement, data: ChartData): void {
+    const range = valueRange(data, true);
+    const scale = niceScale(range.min, range.max);
+    const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+    const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+    const slot = plotWidth / data.labels.length;
+    const barWidth = (slot * 0.8) / data.series.length;
+    const xAt = (index: number) => MARGIN.left + slot * index + slot / 2;
+    const yAt = (value: number) => MARGIN.top + (1 - (value - scale.min) / (scale.max - scale.min)) * plotHeight;
+
+    const svg = svgEl(containerEl, 'svg', { viewBox: `0 0 ${WIDTH} ${HEIGHT}`, class: 'data-fetcher-chart', role: 'img' });
+    renderAxes(svg, data, scale, xAt, yAt);
+
+    data.series.forEach((entry, seriesIndex) => {
+        const group = svgEl(svg, 'g', { class: seriesClass(seriesIndex) });
+        entry.values.forEach((value, index) => {
+            if (value === null) return;
+            const top = yAt(Math.max(value, 0));
+            const bar = svgEl(group, 'rect', {
+                x: MARGIN.left + slot * index + slot * 0.1 + barWidth * seriesIndex,
+                y: top,
+                width: Math.max(1, barWidth - 1),
+                height: Math.max(0, yAt(Math.min(value, 0)) - top),
+                class: 'data-fetcher-chart-bar'
+            });
+            addTitle(bar, `${entry.name} · ${data.labels[index]}: ${value}`);
+        });
+    });
+
+    if (data.series.length > 1) {
+        renderLegend(containerEl, data.series.map(entry => entry.name));
+    }
+}
+
+function renderPieChart(containerEl: HTMLElement, data: ChartData): void {
+    const slices = data.labels
+        .map((label, index) => ({ label, value: data.series[0].values[index] ?? 0 }))
+        .filter(slice => slice.value > 0);
+    const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+    if (total <= 0) {
+        throw new Error('Pie charts need positive values');
+    }
+
+    const size = PIE_RADIUS * 2 + 8;
+    const center = size / 2;
+    const svg = svgEl(containerEl, 'svg', { viewBox: `0 0 ${size} ${size}`, class: 'data-fetcher-chart data-fetcher-chart-pie', role: 'img' });
+
+    let angle = -Math.PI / 2;
+    slices.forEach((slice, index) => {
+        const share = slice.value / total;
+        const title = `${slice.label}: ${slice.value} (${(share * 100).toFixed(1)}%)`;
+
+        if (share >= 1) {
+            addTitle(svgEl(svg, 'circle', { cx: center, cy: center, r: PIE_RADIUS, class: `data-fetcher-chart-slice ${seriesClass(index)}` }), title);
+            return;
+        }
+
+        const end = angle + share * Math.PI * 2;
+        const point = (a: number) => `${(center + PIE_RADIUS * Math.cos(a)).toFixed(2)},${(center + PIE_RADIUS * Math.sin(a)).toFixed(2)}`;
+        const path = svgEl(svg, 'path', {
+            d: `M${center},${center} L${point(angle)} A${PIE_RADIUS},${PIE_RADIUS} 0 ${share > 0.5 ? 1 : 0} 1 ${point(end)} Z`,
+            class: `data-fetcher-chart-slice ${seriesClass(index)}`
+        });
+        addTitle(path, title);
+        angle = end;
+    });
+
+    renderLegend(containerEl, slices.map(slice => `${slice.label} (${((slice.value / total) * 100).toFixed(1)}%)`));
+}
+
+function renderSparkline(containerEl: HTMLElement, data: ChartData): void {
+    const range = valueRange(data, false);
+    const span = range.max - range.min || 1;
+    const xAt = (index: number) => data.labels.length === 1 ? SPARKLINE_WIDTH / 2 : (index / (data.labels.length - 1)) * (SPARKLINE_WIDTH - 4) + 2;
+    const yAt = (value: number) => 2 + (1 - (value - range.min) / span) * (SPARKLINE_HEIGHT - 4);
+
+    const svg = svgEl(containerEl, 'svg', {
+        viewBox: `0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`,
+        width: SPARKLINE_WIDTH,
+        height: SPARKLINE_HEIGHT,
+        class: 'data-fetcher-chart data-fetcher-sparkline',
+        role: 'img'
+    });
+
+    data.series.forEach((entry, seriesIndex) => {
+        const line = svgEl(svg, 'path', { d: linePath(entry.values, xAt, yAt), class: `data-fetcher-chart-line ${seriesClass(seriesIndex)}` });
+        const present = entry.values.filter((value): value is number => value !== null);
+        addTitle(line, `${entry.name}: ${present[0]} → ${present[present.length - 1]} (min ${Math.min(...present)}, max ${Math.max(...present)})`);
+    });
+}
+
+/**
+ * Draw the chart as inline SVG
+ */
+export function renderChart(containerEl: HTMLElement, data: ChartData, kind: ChartKind): void {
+    const chartEl = containerEl.createDiv({ cls: 'data-fetcher-chart-container' });
+
+    switch (kind) {
+        case 'line':
+            renderLineChart(chartEl, data);
+            break;
+        case 'bar':
+            renderBarChart(chartEl, data);
+            break;
+        case 'pie':
+            renderPieChart(chartEl, data);
+            break;
+        case 'sparkline':
+            renderSparkline(chartEl, data);
+            break;
+    }
+}
+
+function mermaidString(text: string): string {
+    return `"${text.replace(/"/g, "'")}"`;
+}
+
+/**
+ * Equivalent Mermaid block for Save to Note: `pie` for pie charts, `xychart-beta` otherwise.
+ * Mermaid has no gaps, so missing values are written as 0.
+ */
+export function toMermaidChart(data: ChartData, kind: ChartKind): string {
+    const lines = ['```mermaid'];
+
+    if (kind === 'pie') {
+        lines.push('pie');
+        data.labels.forEach((label, index) => {
+            const value = data.series[0].values[index];
+            if (value !== null && value > 0) {
+                lines.push(`    ${mermaidString(label || String(index + 1))} : ${value}`);
+            }
+        });
+    } else {
+        const seriesValues = data.series.map(entry => entry.values.map(value => value ?? 0));
+        const allValues = ([] as number[]).concat(...seriesValues, kind === 'bar' ? [0] : []);
+        lines.push('xychart-beta');
+        if (data.series.length > 1) {
+            lines.push(`    title ${mermaidString(data.series.map(entry => entry.name).join(', '))}`);
+        }
+        lines.push(`    x-axis [${data.labels.map(mermaidString).join(', ')}]`);
+        lines.push(`    y-axis ${mermaidString(data.series.length === 1 ? data.series[0].name : 'value')} ${Math.min(...allValues)} --> ${Math.max(...allValues)}`);
+        for (const values of seriesValues) {
+            lines.push(`    ${kind === 'bar' ? 'bar' : 'line'} [${values.join(', ')}]`);
+        }
+    }
+
+    lines.push('```');
+    return lines.join('\n');
+}
@@ -0,0 +1,298 @@
+import { moment } from 'obsidian';
+
+export type ColumnType = 'number' | 'currency' | 'percent' | 'date' | 'relative' | 'link' | 'image' | 'boolean';
+
+export interface ColumnFormat {
+    type: ColumnType;
+    decimals?: number;
+    separators: boolean; // thousands separators for numeric types
+    scale?: number; // divisor applied before formatting, e.g. 1e18 for token amounts
+    currency?: string; // ISO 4217 code for "currency"
+    dateFormat?: string; // moment format for "date"
+    label?: string; // link text for "link"
+}
+
+const COLUMN_TYPES: ColumnType[] = ['number', 'currency', 'percent', 'date', 'relative', 'link', 'image', 'boolean'];
+const NUMERIC_TYPES: ColumnType[] = ['number', 'currency', 'percent'];
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD HH:mm';
+const IMAGE_THUMBNAIL_WIDTH = 48;
+
+const WEB_URL = /^https?:\/\//i;
+
+// Epoch values below this are read as seconds, above as milliseconds
+const EPOCH_SECONDS_LIMIT = 1e11;
+
+function parseOptionNumber(column: string, name: string, value: string): number {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) {
+        throw new Error(`Column "${column}": "${name}" must be a number, got "${value}"`);
+    }
+    return parsed;
+}
+
+/**
+ * Parse one column spec: a type, an optional argument and `key=value` options,
+ * e.g. `currency EUR decimals=0`, `number decimals=4 scale=1e18`, `date YYYY-MM-DD`, `link Open`
+ */
+function parseColumnFormat(column: string, spec: any): ColumnFormat {
+    const options: Record<string, string> = {};
+    let type: string;
+    let argument = '';
+
+    if (spec && typeof spec === 'object' && !Array.isArray(spec)) {
+        type = String(spec.type || '');
+        for (const [key, value] of Object.entries(spec)) {
+            if (key !== 'type') {
+                options[key] = String(value);
+            }
+        }
+    } else {
+        const tokens = String(spec ?? '').trim().split(/\s+/).filter(Boolean);
+        type = tokens.shift() || '';
+        const positional: string[] = [];
+        for (const token of tokens) {
+            const match = token.match(/^(\w+)=(.*)$/);
+            if (match) {
+                options[match[1]] = match[2];
+            } else {
+                positional.push(token);
+            }
+        }
+        argument = positional.join(' ');
+    }
+
+    const normalizedType = type.toLowerCase() as ColumnType;
+    if (!COLUMN_TYPES.includes(normalizedType)) {
+        throw new Error(`Column "${column}": unknown type "${type}". Use one of: ${COLUMN_TYPES.join(', ')}`);
+    }
+
+    const format: ColumnFormat = { type: normalizedType, separators: true };
+
+    for (const [name, value] of Object.entries(options)) {
+        switch (name) {
+            case 'decimals': {
+                const decimals = parseOptionNumber(column, name, value);
+                if (!Number.isInteger(decimals) || decimals < 0 || decimals > 20) {
+                    throw new Error(`Column "${column}": "decimals" must be a whole number from 0 to 20`);
+                }
+                format.decimals = decimals;
+                break;
+            }
+            case 'scale': {
+                const scale = parseOptionNumber(column, name, value);
+                if (scale === 0) {
+                    throw new Error(`Column "${column}": "scale" cannot be 0`);
+                }
+                format.scale = scale;
+                break;
+            }
+            case 'separators':
+                format.separators = !['false', 'no', 'off', '0'].includes(value.toLowerCase());
+                break;
+            case 'currency':
+            case 'format':
+            case 'label':
+                // Named form of the positional argument
+                argument = argument || value;
+                break;
+            default:
+                throw new Error(`Column "${column}": unknown option "${name}"`);
+        }
+    }
+
+    if ((format.scale !== undefined || format.decimals !== undefined) && !NUMERIC_TYPES.includes(format.type)) {
+        throw new Error(`Column "${column}": "scale" and "decimals" only apply to number, currency and percent`);
+    }
+
+    if (format.type === 'currency') {
+        format.currency = (argument || 'USD').toUpperCase();
+        try {
+            new Intl.NumberFormat(undefined, { style: 'currency', currency: format.currency });
+        } catch {
+            throw new Error(`Column "${column}": unknown currency "${format.currency}"`);
+        }
+    } else if (format.type === 'date') {
+        format.dateFormat = argument || DEFAULT_DATE_FORMAT;
+    } else if (format.type === 'link' && argument) {
+        format.label = argument;
+    }
+
+    return format;
+}
+
+/**
+ * Parse a `columns` section: `name: spec` lines or a JSON object of column → spec
+ */
+export function parseColumnFormats(value: any): Record<string, ColumnFormat> {
+    let entries: Record<string, any>;
+
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+        entries = value;
+    } else if (typeof value === 'string' && value.trim().startsWith('{')) {
+        try {
+            entries = JSON.parse(value);
+        } catch {
+            throw new Error('Columns must be valid JSON when written as an object');
+        }
+    } else if (typeof value === 'string') {
+        entries = {};
+        for (const rawLine of value.split('\n')) {
+            const line = rawLine.trim().replace(/^-\s*/, '');
+            if (!line) {
+                continue;
+            }
+            // Split on the first `: ` so date formats may contain colons (`date HH:mm`);
+            // `name:type` without a space splits on the first colon
+            const spaced = line.search(/:\s/);
+            const separator = spaced > 0 ? spaced : line.indexOf(':');
+            if (separator <= 0) {
+                throw new Error(`Invalid column spec "${line}". Use name: type`);
+            }
+            entries[line.substring(0, separator).trim()] = line.substring(separator + 1).trim();
+        }
+    } else {
+        throw new Error('Columns must map column names to display types');
+    }
+
+    const formats: Record<string, ColumnFormat> = {};
+    for (const [column, spec] of Object.entries(entries)) {
+        formats[column] = parseColumnFormat(column, spec);
+    }
+    return formats;
+}
+
+function toNumber(value: any): number | null {
+    if (typeof value === 'number') {
+        return Number.isFinite(value) ? value : null;
+    }
+    if (typeof value === 'string' && value.trim() !== '') {
+        const parsed = Number(value.trim());
+        return Number.isFinite(parsed) ? parsed : null;
+    }
+    return null;
+}
+
+/**
+ * Read an ISO string or epoch seconds/milliseconds as a date
+ */
+export function toMoment(value: any): moment.Moment | null {
+    const epoch = toNumber(value);
+    const parsed = epoch !== null
+        ? moment(Math.abs(epoch) < EPOCH_SECONDS_LIMIT ? epoch * 1000 : epoch)
+        : typeof value === 'string' ? moment(value, moment.ISO_8601) : null;
+    return parsed && parsed.isValid() ? parsed : null;
+}
+
+function toBoolean(value: any): boolean | null {
+    if (typeof value === 'boolean') return value;
+    if (value === 1 || value === 0) return value === 1;
+    if (typeof value === 'string') {
+        const normalized = value.trim().toLowerCase();
+        if (['true', 'yes', 'y', '1'].includes(normalized)) return true;
+        if (['false', 'no', 'n', '0'].includes(normalized)) return false;
+    }
+    return null;
+}
+
+function formatNumber(value: number, format: ColumnFormat): string {
+    const scaled = format.scale !== undefined ? value / format.scale : value;
+    const digits = format.decimals !== undefined
+        ? { minimumFractionDigits: format.decimals, maximumFractionDigits: format.decimals }
+        : {};
+
+    switch (format.type) {
+        case 'currency':
+            return new Intl.NumberFormat(undefined, { style: 'currency', currency: format.currency, useGrouping: format.separators, ...digits }).format(scaled);
+        case 'percent':
+            return new Intl.NumberFormat(undefined, { style: 'percent', useGrouping: format.separators, ...digits }).format(scaled);
+        default:
+            return new Intl.NumberFormat(undefined, { useGrouping: format.separators, maximumFractionDigits: 20, ...digits }).format(scaled);
+    }
+}
+
+/**
+ * Display text of a formatted cell, or null when the value does not fit the column type
+ * (the caller then shows the raw value)
+ */
+export function formatColumnText(value: any, format: ColumnFormat): string | null {
+    if (value === null || value === undefined || value === '') {
+        return null;
+    }
+
+    switch (format.type) {
+        case 'number':
+        case 'currency':
+        case 'percent': {
+            const number = toNumber(value);
+            return number === null ? null : formatNumber(number, format);
+        }
+        case 'date': {
+            const date = toMoment(value);
+            return date ? date.format(format.dateFormat) : null;
+        }
+        case 'relative': {
+            const date = toMoment(value);
+            return date ? date.fromNow() : null;
+        }
+        case 'boolean': {
+            const flag = toBoolean(value);
+            return flag === null ? null : flag ? '✓' : '✗';
+        }
+        case 'link':
+            // Only web links; `javascript:` or `data:` URLs from API data are shown as plain text
+            return typeof value === 'string' && WEB_URL.test(value.trim()) ? (format.label || value) : null;
+        case 'image':
+            return typeof value === 'string' ? value : null;
+    }
+}
+
+/**
+ * Escape only what ends a markdown link destination; URLs from APIs are often already encoded
+ */
+function escapeLinkDestination(url: string): string {
+    return url.trim().replace(/[\s()<>]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+}
+
+/**
+ * Markdown for a formatted cell, used by Save to Note and Copy
+ */
+export function formatColumnMarkdown(value: any, format: ColumnFormat): string | null {
+    const text = formatColumnText(value, format);
+    if (text === null) {
+        return null;
+    }
+
+    if (format.type === 'link') {
+        return `[${text.replace(/([[\]])/g, '\\$1')}](${escapeLinkDestination(String(value))})`;
+    }
+    if (format.type === 'image') {
+        return `![|${IMAGE_THUMBNAIL_WIDTH}](${escapeLinkDestination(String(value))})`;
+    }
+    return text;
+}
+
+/**
+ * Fill a table cell for a formatted column. Returns false when the value does not fit the
+ * column type, so the caller can render the raw value instead.
+ */
+export function renderColumnCell(cellEl: HTMLElement, value: any, format: ColumnFormat): boolean {
+    const text = formatColumnText(value, format);
+    if (text === null) {
+        return false;
+    }
+
+    const title = typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+    switch (format.type) {
+        case 'link':
+            cellEl.createEl('a', { text, href: String(value), cls: 'data-fetcher-table-cell', attr: { title, target: '_blank', rel: 'noopener' } });
+            break;
+        case 'image':
+            cellEl.createEl('img', { cls: 'data-fetcher-table-image', attr: { src: String(value), alt: '', title, loading: 'lazy' } });
+            break;
+        default:
+            cellEl.createEl('span', { text, cls: `data-fetcher-table-cell data-fetcher-cell-${format.type}`, attr: { title } });
+    }
+    return true;
+}
@@ -0,0 +1,52 @@
+const UNIT_MS: Record<string, number> = {
+    ms: 1,
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parse durations such as `30s`, `5m`, `1h30m` or `2d` into milliseconds.
+ * A bare number is read as minutes, matching the cache duration setting.
+ */
+export function parseDuration(value: string): number {
+    const normalized = value.trim().toLowerCase();
+
+    if (/^\d+(\.\d+)?$/.test(normalized)) {
+        return Math.round(parseFloat(normalized) * UNIT_MS.m);
+    }
+
+    const partPattern = /(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)/g;
+    let total = 0;
+    let consumed = '';
+    let match: RegExpExecArray | null;
+
+    while ((match = partPattern.exec(normalized)) !== null) {
+        total += parseFloat(match[1]) * UNIT_MS[match[2]];
+        consumed += match[0];
+    }
+
+    if (!consumed || consumed.replace(/\s+/g, '') !== normalized.replace(/\s+/g, '')) {
+        throw new Error(`Invalid duration "${value}". Use values like 30s, 5m, 1h or 2d`);
+    }
+
+    return Math.round(total);
+}
+
+/**
+ * Format milliseconds as a compact countdown, e.g. `1h 5m` or `4m 32s`
+ */
+export function formatDuration(ms: number): string {
+    const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+    const days = Math.floor(totalSeconds / 86400);
+    const hours = Math.floor((totalSeconds % 86400) / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    if (minutes > 0) return `${minutes}m ${seconds}s`;
+    return `${seconds}s`;
+}
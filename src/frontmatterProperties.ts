@@ -0,0 +1,254 @@
+import { compileExpression } from './pathQuery';
+import { toMoment } from './columnFormats';
+
+export type PropertyType = 'number' | 'date' | 'datetime' | 'list';
+
+export interface PropertyMapping {
+    property: string; // dot path of the frontmatter property
+    selector: string; // path expression evaluated against the block's data
+    type?: PropertyType;
+    list: 'replace' | 'merge'; // how list values combine with an existing list
+    empty: 'set' | 'remove' | 'skip'; // what to do when the selector returns nothing
+}
+
+const PROPERTY_TYPES: PropertyType[] = ['number', 'date', 'datetime', 'list'];
+const OPTION_PATTERN = /^(type|list|empty)=(\S+)$/;
+
+const DATE_FORMAT = 'YYYY-MM-DD';
+const DATETIME_FORMAT = 'YYYY-MM-DDTHH:mm:ss';
+
+function parseOption<T extends string>(property: string, name: string, value: string, allowed: T[]): T {
+    const normalized = value.trim().toLowerCase() as T;
+    if (!allowed.includes(normalized)) {
+        throw new Error(`Property "${property}": "${name}" must be one of ${allowed.join(', ')}, got "${value}"`);
+    }
+    return normalized;
+}
+
+/**
+ * Parse one mapping: a selector followed by optional `type=`, `list=` and `empty=` options,
+ * e.g. `topics type=list list=merge`, or the same as an object with a `path` key
+ */
+function parsePropertyMapping(property: string, spec: any): PropertyMapping {
+    const options: Record<string, string> = {};
+    let selector: string;
+
+    if (spec && typeof spec === 'object' && !Array.isArray(spec)) {
+        selector = String(spec.path ?? '').trim();
+        for (const [key, value] of Object.entries(spec)) {
+            if (key !== 'path') {
+                options[key] = String(value);
+            }
+        }
+    } else {
+        // Options are taken from the end so selectors may contain spaces
+        const tokens = String(spec ?? '').trim().split(/\s+/);
+        let match: RegExpMatchArray | null;
+        while (tokens.length > 1 && (match = tokens[tokens.length - 1].match(OPTION_PATTERN))) {
+            options[match[1]] = match[2];
+            tokens.pop();
+        }
+        selector = tokens.join(' ');
+    }
+
+    if (!selector) {
+        throw new Error(`Property "${property}" needs a selector, e.g. ${property}: items[0].name`);
+    }
+    try {
+        compileExpression(selector);
+    } catch (error) {
+        throw new Error(`Property "${property}": ${error.message}`);
+    }
+
+    const mapping: PropertyMapping = { property, selector, list: 'replace', empty: 'set' };
+    for (const [name, value] of Object.entries(options)) {
+        switch (name) {
+            case 'type':
+                mapping.type = parseOption(property, name, value, PROPERTY_TYPES);
+                break;
+            case 'list':
+                mapping.list = parseOption(property, name, value, ['replace', 'merge']);
+                break;
+            case 'empty':
+                mapping.empty = parseOption(property, name, value, ['set', 'remove', 'skip']);
+                break;
+            default:
+                throw new Error(`Property "${property}": unknown option "${name}"`);
+        }
+    }
+    return mapping;
+}
+
+/**
+ * Parse a `properties` section: `property: selector` lines or a JSON object of property → selector
+ */
+export function parsePropertyMappings(value: any): PropertyMapping[] {
+    let entries: Array<[string, any]>;
+
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+        entries = Object.entries(value);
+    } else if (typeof value === 'string' && value.trim().startsWith('{')) {
+        try {
+            entries = Object.entries(JSON.parse(value));
+        } catch {
+            throw new Error('Properties must be valid JSON when written as an object');
+        }
+    } else if (typeof value === 'string') {
+        entries = [];
+        for (const rawLine of value.split('\n')) {
+            const line = rawLine.trim().replace(/^-\s*/, '');
+            if (!line) {
+                continue;
+            }
+            // Property names never contain colons, selectors may (slices)
+            const separator = line.indexOf(':');
+            if (separator <= 0) {
+                throw new Error(`Invalid property mapping "${line}". Use property: selector`);
+            }
+            entries.push([line.substring(0, separator).trim(), line.substring(separator + 1).trim()]);
+        }
+    } else {
+        throw new Error('Properties must map property names to selectors');
+    }
+
+    if (entries.length === 0) {
+        throw new Error('`properties` needs at least one property: selector line');
+    }
+    return entries.map(([property, spec]) => parsePropertyMapping(property, spec));
+}
+
+function isEmpty(value: any): boolean {
+    return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function coerceValue(mapping: PropertyMapping, value: any): any {
+    if (isEmpty(value)) {
+        return null;
+    }
+
+    switch (mapping.type) {
+        case 'number': {
+            const number = typeof value === 'number' ? value : Number(String(value).trim());
+            if (!Number.isFinite(number)) {
+                throw new Error(`Property "${mapping.property}": "${value}" is not a number`);
+            }
+            return number;
+        }
+        case 'date':
+        case 'datetime': {
+            const date = toMoment(value);
+            if (!date) {
+                throw new Error(`Property "${mapping.property}": "${value}" is not a date`);
+            }
+            return date.format(mapping.type === 'date' ? DATE_FORMAT : DATETIME_FORMAT);
+        }
+        case 'list':
+            return Array.isArray(value) ? value : [value];
+        default:
+            return value;
+    }
+}
+
+function valuesEqual(a: any, b: any): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function splitPropertyPath(propertyPath: string): string[] {
+    const segments = propertyPath.split('.').map(segment => segment.trim()).filter(Boolean);
+    if (segments.length === 0) {
+        throw new Error('Property path cannot be empty');
+    }
+    return segments;
+}
+
+/**
+ * Set a dot-path property, creating parent objects. Returns false when the value is unchanged.
+ */
+export function setNestedPropertyValue(target: Record<string, any>, propertyPath: string, value: any): boolean {
+    const segments = splitPropertyPath(propertyPath);
+
+    let current: Record<string, any> = target;
+    for (let i = 0; i < segments.length - 1; i++) {
+        const segment = segments[i];
+        const next = current[segment];
+        if (next === null || next === undefined) {
+            current[segment] = {};
+        } else if (typeof next !== 'object' || Array.isArray(next)) {
+            throw new Error(`Property path conflict at "${segment}"`);
+        }
+        current = current[segment] as Record<string, any>;
+    }
+
+    const finalSegment = segments[segments.length - 1];
+    if (valuesEqual(current[finalSegment], value)) {
+        return false;
+    }
+
+    current[finalSegment] = value;
+    return true;
+}
+
+export function getNestedPropertyValue(target: Record<string, any>, propertyPath: string): any {
+    let current: any = target;
+    for (const segment of splitPropertyPath(propertyPath)) {
+        if (current === null || typeof current !== 'object') {
+            return undefined;
+        }
+        current = current[segment];
+    }
+    return current;
+}
+
+/**
+ * Delete a dot-path property. Returns false when it did not exist.
+ */
+export function removeNestedPropertyValue(target: Record<string, any>, propertyPath: string): boolean {
+    const segments = splitPropertyPath(propertyPath);
+    const parent = segments.length > 1
+        ? getNestedPropertyValue(target, segments.slice(0, -1).join('.'))
+        : target;
+    const finalSegment = segments[segments.length - 1];
+
+    if (!parent || typeof parent !== 'object' || !(finalSegment in parent)) {
+        return false;
+    }
+    delete parent[finalSegment];
+    return true;
+}
+
+/**
+ * Apply every mapping to a frontmatter object (inside a single processFrontMatter call).
+ * Returns true when any property changed.
+ */
+export function applyPropertyMappings(frontmatter: Record<string, any>, data: any, mappings: PropertyMapping[]): boolean {
+    let changed = false;
+
+    for (const mapping of mappings) {
+        const value = coerceValue(mapping, compileExpression(mapping.selector)(data));
+
+        if (value === null) {
+            if (mapping.empty === 'remove') {
+                changed = removeNestedPropertyValue(frontmatter, mapping.property) || changed;
+            } else if (mapping.empty === 'set') {
+                changed = setNestedPropertyValue(frontmatter, mapping.property, null) || changed;
+            }
+            continue;
+        }
+
+        let next = value;
+        if (mapping.list === 'merge' && Array.isArray(value)) {
+            const existing = getNestedPropertyValue(frontmatter, mapping.property);
+            const merged = Array.isArray(existing) ? [...existing] : existing === null || existing === undefined ? [] : [existing];
+            for (const item of value) {
+                if (!merged.some(entry => valuesEqual(entry, item))) {
+                    merged.push(item);
+                }
+            }
+            next = merged;
+        }
+
+        changed = setNestedPropertyValue(frontmatter, mapping.property, next) || changed;
+    }
+
+    return changed;
+}
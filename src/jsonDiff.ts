@@ -0,0 +1,116 @@
+import { compileExpression } from './pathQuery';
+import { formatNodePath } from './jsonTree';
+
+export type DiffKind = 'added' | 'removed' | 'changed';
+
+export interface DiffEntry {
+    kind: DiffKind;
+    path: string;
+    before?: any;
+    after?: any;
+}
+
+export interface RowDiff {
+    kind: DiffKind;
+    key: string;
+    changes: DiffEntry[]; // changed fields of a changed row
+}
+
+// Stop collecting after this many entries so huge payloads stay readable
+export const MAX_DIFF_ENTRIES = 1000;
+
+function isPlainObject(value: any): value is Record<string, any> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Structural diff of two JSON values: added, removed and changed paths.
+ * Objects are compared key by key and arrays index by index.
+ */
+export function diffJson(before: any, after: any, limit = MAX_DIFF_ENTRIES): DiffEntry[] {
+    const entries: DiffEntry[] = [];
+
+    const visit = (a: any, b: any, segments: Array<string | number>): void => {
+        if (entries.length >= limit) {
+            return;
+        }
+
+        if (isPlainObject(a) && isPlainObject(b)) {
+            const keys = [...Object.keys(a), ...Object.keys(b).filter(key => !(key in a))];
+            for (const key of keys) {
+                if (!(key in b)) {
+                    entries.push({ kind: 'removed', path: formatNodePath([...segments, key]), before: a[key] });
+                } else if (!(key in a)) {
+                    entries.push({ kind: 'added', path: formatNodePath([...segments, key]), after: b[key] });
+                } else {
+                    visit(a[key], b[key], [...segments, key]);
+                }
+            }
+            return;
+        }
+
+        if (Array.isArray(a) && Array.isArray(b)) {
+            const length = Math.max(a.length, b.length);
+            for (let index = 0; index < length; index++) {
+                if (index >= b.length) {
+                    entries.push({ kind: 'removed', path: formatNodePath([...segments, index]), before: a[index] });
+                } else if (index >= a.length) {
+                    entries.push({ kind: 'added', path: formatNodePath([...segments, index]), after: b[index] });
+                } else {
+                    visit(a[index], b[index], [...segments, index]);
+                }
+            }
+            return;
+        }
+
+        if (JSON.stringify(a) !== JSON.stringify(b)) {
+            entries.push({ kind: 'changed', path: formatNodePath(segments), before: a, after: b });
+        }
+    };
+
+    visit(before, after, []);
+    return entries.slice(0, limit);
+}
+
+/**
+ * Row-level diff of two tables, matching rows on a key field instead of their position
+ */
+export function diffRows(before: Record<string, any>[], after: Record<string, any>[], keyField: string): RowDiff[] {
+    const readKey = compileExpression(keyField);
+    const index = (rows: Record<string, any>[]): Map<string, Record<string, any>> => {
+        const byKey = new Map<string, Record<string, any>>();
+        rows.forEach((row, position) => {
+            // Literal keys first, so flattened dotted column names work
+            const value = keyField in row ? row[keyField] : readKey(row);
+            const key = value === null || value === undefined
+                ? `#${position + 1}`
+                : typeof value === 'object' ? JSON.stringify(value) : String(value);
+            byKey.set(key, row);
+        });
+        return byKey;
+    };
+
+    const beforeRows = index(before);
+    const afterRows = index(after);
+    const diffs: RowDiff[] = [];
+
+    for (const [key, row] of afterRows) {
+        const previous = beforeRows.get(key);
+        if (!previous) {
+            diffs.push({ kind: 'added', key, changes: [] });
+            continue;
+        }
+        const changes = diffJson(previous, row);
+        if (changes.length > 0) {
+            diffs.push({ kind: 'changed', key, changes });
+        }
+    }
+
+    for (const key of beforeRows.keys()) {
+        if (!afterRows.has(key)) {
+            diffs.push({ kind: 'removed', key, changes: [] });
+        }
+    }
+
+    return diffs;
+}
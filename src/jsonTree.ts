@@ -0,0 +1,247 @@
+import { Notice } from 'obsidian';
+
+type PathSegment = string | number;
+
+// Children are rendered in batches so huge arrays stay responsive
+const CHILD_BATCH_SIZE = 100;
+const MAX_SEARCH_MATCHES = 500;
+const SEARCH_DELAY_MS = 250;
+const MAX_PREVIEW_LENGTH = 120;
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function pathId(segments: PathSegment[]): string {
+    return JSON.stringify(segments);
+}
+
+/**
+ * Path expression for a node, in the syntax accepted by `path`: `items[0].owner."display name"`
+ */
+export function formatNodePath(segments: PathSegment[]): string {
+    if (segments.length === 0) {
+        return '@';
+    }
+
+    return segments.reduce<string>((path, segment) => {
+        if (typeof segment === 'number') {
+            return `${path}[${segment}]`;
+        }
+        const key = IDENTIFIER.test(segment) ? segment : `"${segment.replace(/["\\]/g, '\\$&')}"`;
+        return path ? `${path}.${key}` : key;
+    }, '');
+}
+
+function isContainer(value: any): value is Record<string, any> | any[] {
+    return value !== null && typeof value === 'object';
+}
+
+function valueType(value: any): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function summarize(value: any[] | Record<string, any>): string {
+    return Array.isArray(value) ? `[${value.length}]` : `{${Object.keys(value).length}}`;
+}
+
+function formatPrimitive(value: any): string {
+    const text = typeof value === 'string' ? JSON.stringify(value) : String(value);
+    return text.length > MAX_PREVIEW_LENGTH ? `${text.substring(0, MAX_PREVIEW_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Collapsible JSON viewer used by `format: tree` and the cache browser. Children are only
+ * rendered when a node is expanded; search walks the data and expands the matching branches.
+ * Click a key to copy its path.
+ */
+export class JsonTreeView {
+    private data: any;
+    private treeEl: HTMLElement;
+    private countEl: HTMLElement;
+
+    private expanded: Set<string> = new Set([pathId([])]);
+    private matches: Set<string> = new Set();
+    // Highest child index each parent has to show so every match is rendered
+    private revealIndex: Map<string, number> = new Map();
+    private searchTimer: number | null = null;
+
+    constructor(containerEl: HTMLElement, data: any) {
+        this.data = data;
+
+        const toolbar = containerEl.createDiv({ cls: 'data-fetcher-tree-toolbar' });
+        const searchInput = toolbar.createEl('input', {
+            type: 'search',
+            cls: 'data-fetcher-tree-search',
+            attr: { placeholder: 'Search keys and values...' }
+        });
+        searchInput.addEventListener('input', () => {
+            if (this.searchTimer !== null) {
+                window.clearTimeout(this.searchTimer);
+            }
+            this.searchTimer = window.setTimeout(() => {
+                this.searchTimer = null;
+                this.search(searchInput.value.trim().toLowerCase());
+            }, SEARCH_DELAY_MS);
+        });
+
+        this.countEl = toolbar.createSpan({ cls: 'data-fetcher-tree-count' });
+
+        toolbar.createEl('button', { text: 'Collapse all' }).addEventListener('click', () => {
+            this.expanded = new Set([pathId([])]);
+            this.render();
+        });
+
+        this.treeEl = containerEl.createDiv({ cls: 'data-fetcher-tree' });
+        this.render();
+    }
+
+    private render(): void {
+        this.treeEl.empty();
+        this.renderNode(this.treeEl, null, this.data, []);
+
+        const first = this.treeEl.querySelector('.data-fetcher-tree-match');
+        if (first) {
+            first.scrollIntoView({ block: 'nearest' });
+        }
+    }
+
+    private renderNode(parentEl: HTMLElement, key: PathSegment | null, value: any, segments: PathSegment[]): void {
+        const id = pathId(segments);
+        const nodeEl = parentEl.createDiv({ cls: 'data-fetcher-tree-node' });
+        const lineEl = nodeEl.createDiv({ cls: 'data-fetcher-tree-line' });
+        if (this.matches.has(id)) {
+            lineEl.addClass('data-fetcher-tree-match');
+        }
+
+        const container = isContainer(value);
+        const open = container && this.expanded.has(id);
+        const toggleEl = lineEl.createSpan({ cls: 'data-fetcher-tree-toggle', text: container ? (open ? '▾' : '▸') : '' });
+
+        if (key !== null) {
+            const keyEl = lineEl.createSpan({
+                cls: 'data-fetcher-tree-key',
+                text: typeof key === 'number' ? String(key) : key,
+                attr: { title: `Copy path: ${formatNodePath(segments)}` }
+            });
+            keyEl.addEventListener('click', event => {
+                event.stopPropagation();
+                this.copyPath(segments);
+            });
+            lineEl.createSpan({ text: ': ' });
+        }
+
+        if (!container) {
+            lineEl.createSpan({ cls: `data-fetcher-tree-value data-fetcher-tree-${valueType(value)}`, text: formatPrimitive(value) });
+            return;
+        }
+
+        lineEl.createSpan({ cls: 'data-fetcher-tree-summary', text: summarize(value) });
+        const childrenEl = nodeEl.createDiv({ cls: 'data-fetcher-tree-children' });
+
+        if (open) {
+            this.renderChildren(childrenEl, value, segments, 0);
+        }
+
+        const toggle = () => {
+            if (this.expanded.has(id)) {
+                this.expanded.delete(id);
+                childrenEl.empty();
+                toggleEl.setText('▸');
+            } else {
+                this.expanded.add(id);
+                this.renderChildren(childrenEl, value, segments, 0);
+                toggleEl.setText('▾');
+            }
+        };
+        lineEl.addClass('data-fetcher-tree-expandable');
+        lineEl.addEventListener('click', toggle);
+    }
+
+    private renderChildren(childrenEl: HTMLElement, value: any[] | Record<string, any>, segments: PathSegment[], start: number): void {
+        const keys: PathSegment[] = Array.isArray(value) ? [] : Object.keys(value);
+        const length = Array.isArray(value) ? value.length : keys.length;
+        const reveal = this.revealIndex.get(pathId(segments)) ?? -1;
+        const end = Math.min(length, Math.max(start + CHILD_BATCH_SIZE, reveal + 1));
+
+        for (let index = start; index < end; index++) {
+            const key = Array.isArray(value) ? index : keys[index];
+            this.renderNode(childrenEl, key, (value as any)[key], [...segments, key]);
+        }
+
+        if (end < length) {
+            const moreEl = childrenEl.createEl('button', {
+                cls: 'data-fetcher-tree-more',
+                text: `Show ${Math.min(CHILD_BATCH_SIZE, length - end)} more (${length - end} remaining)`
+            });
+            moreEl.addEventListener('click', () => {
+                moreEl.remove();
+                this.renderChildren(childrenEl, value, segments, end);
+            });
+        }
+    }
+
+    /**
+     * Mark nodes whose key or value contains the text and expand their ancestors
+     */
+    private search(text: string): void {
+        this.matches.clear();
+        this.revealIndex.clear();
+
+        if (text) {
+            const visit = (value: any, segments: PathSegment[]): void => {
+                if (this.matches.size >= MAX_SEARCH_MATCHES) {
+                    return;
+                }
+
+                const key = segments[segments.length - 1];
+                const keyMatches = key !== undefined && String(key).toLowerCase().includes(text);
+                const valueMatches = !isContainer(value) && String(value).toLowerCase().includes(text);
+                if (keyMatches || valueMatches) {
+                    this.matches.add(pathId(segments));
+                    this.reveal(segments);
+                }
+
+                if (isContainer(value)) {
+                    const entries: Array<[PathSegment, any]> = Array.isArray(value)
+                        ? value.map((item, index) => [index, item] as [PathSegment, any])
+                        : Object.entries(value);
+                    for (const [childKey, child] of entries) {
+                        visit(child, [...segments, childKey]);
+                    }
+                }
+            };
+            visit(this.data, []);
+        }
+
+        this.countEl.setText(!text
+            ? ''
+            : this.matches.size >= MAX_SEARCH_MATCHES
+                ? `${MAX_SEARCH_MATCHES}+ matches`
+                : `${this.matches.size} ${this.matches.size === 1 ? 'match' : 'matches'}`);
+        this.render();
+    }
+
+    private reveal(segments: PathSegment[]): void {
+        let container: any = this.data;
+        for (let depth = 0; depth < segments.length; depth++) {
+            const parent = segments.slice(0, depth);
+            const parentId = pathId(parent);
+            this.expanded.add(parentId);
+
+            const segment = segments[depth];
+            const index = Array.isArray(container) ? Number(segment) : Object.keys(container).indexOf(String(segment));
+            this.revealIndex.set(parentId, Math.max(this.revealIndex.get(parentId) ?? -1, index));
+            container = container[segment];
+        }
+    }
+
+    private copyPath(segments: PathSegment[]): void {
+        const path = formatNodePath(segments);
+        navigator.clipboard.writeText(path).then(() => {
+            new Notice(`Copied path: ${path}`);
+        }).catch(error => {
+            new Notice(`Failed to copy: ${error.message}`);
+        });
+    }
+}
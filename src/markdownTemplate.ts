@@ -0,0 +1,232 @@
+import { compileExpression } from './pathQuery';
+
+/**
+ * Mustache-like templates for `format: template`:
+ * `{{name}}`, `{{owner.login}}`, `{{#each items}}...{{else}}...{{/each}}`,
+ * `{{#if stars > 100}}...{{else}}...{{/if}}` and `{{#unless archived}}...{{/unless}}`.
+ * Placeholders and conditions use the path expression syntax, evaluated against the current item.
+ */
+
+type TemplateNode =
+    | { type: 'text'; text: string }
+    | { type: 'value'; expression: string; evaluate: (value: any) => any; line: number }
+    | { type: 'section'; kind: 'each' | 'if' | 'unless'; expression: string; evaluate: (value: any) => any; children: TemplateNode[]; otherwise: TemplateNode[]; line: number };
+
+interface Scope {
+    value: any;
+    parent: Scope | null;
+    index?: number;
+    key?: string;
+    length?: number;
+}
+
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*([\s\S]*?)\s*\}\}/g;
+const SIMPLE_NAME = /^[A-Za-z_$][\w$-]*(\.[A-Za-z_$][\w$-]*)*$/;
+const LOOP_VARIABLE = /^@[a-z]+$/;
+
+function lineAt(source: string, offset: number): number {
+    return source.slice(0, offset).split('\n').length;
+}
+
+function compileValueExpression(expression: string, line: number): (value: any) => any {
+    try {
+        return compileExpression(expression);
+    } catch (error) {
+        throw new Error(`Template error on line ${line}: ${error.message}`);
+    }
+}
+
+/**
+ * Parse a template, reporting unbalanced sections and invalid expressions with their line
+ */
+function compileTemplate(source: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const stack: Array<{ node: Extract<TemplateNode, { type: 'section' }>; inElse: boolean }> = [];
+    const target = (): TemplateNode[] => {
+        const open = stack[stack.length - 1];
+        return open ? (open.inElse ? open.node.otherwise : open.node.children) : root;
+    };
+
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+    TAG_PATTERN.lastIndex = 0;
+
+    while ((match = TAG_PATTERN.exec(source)) !== null) {
+        if (match.index > lastIndex) {
+            target().push({ type: 'text', text: source.slice(lastIndex, match.index) });
+        }
+        lastIndex = TAG_PATTERN.lastIndex;
+
+        const [, sigil, body] = match;
+        const line = lineAt(source, match.index);
+
+        if (sigil === '#') {
+            const sectionMatch = body.match(/^(each|if|unless)\b\s*([\s\S]*)$/);
+            if (!sectionMatch || !sectionMatch[2].trim()) {
+                throw new Error(`Template error on line ${line}: use {{#each list}}, {{#if condition}} or {{#unless condition}}`);
+            }
+            const kind = sectionMatch[1] as 'each' | 'if' | 'unless';
+            const expression = sectionMatch[2].trim();
+            const node: Extract<TemplateNode, { type: 'section' }> = {
+                type: 'section',
+                kind,
+                expression,
+                evaluate: compileScopedValue(expression, line),
+                children: [],
+                otherwise: [],
+                line
+            };
+            target().push(node);
+            stack.push({ node, inElse: false });
+        } else if (sigil === '/') {
+            const open = stack.pop();
+            if (!open) {
+                throw new Error(`Template error on line ${line}: {{/${body}}} has no matching opening tag`);
+            }
+            if (body !== open.node.kind) {
+                throw new Error(`Template error on line ${line}: expected {{/${open.node.kind}}} to close {{#${open.node.kind}}} from line ${open.node.line}, found {{/${body}}}`);
+            }
+        } else if (body === 'else') {
+            const open = stack[stack.length - 1];
+            if (!open || open.inElse) {
+                throw new Error(`Template error on line ${line}: {{else}} must be inside a single {{#each}}, {{#if}} or {{#unless}}`);
+            }
+            open.inElse = true;
+        } else if (body) {
+            target().push({ type: 'value', expression: body, evaluate: compileScopedValue(body, line), line });
+        }
+    }
+
+    if (lastIndex < source.length) {
+        target().push({ type: 'text', text: source.slice(lastIndex) });
+    }
+
+    if (stack.length > 0) {
+        const open = stack[stack.length - 1].node;
+        throw new Error(`Template error on line ${open.line}: {{#${open.kind} ${open.expression}}} is never closed`);
+    }
+
+    return root;
+}
+
+/**
+ * `this`, `.` and `@` refer to the current item; `this.name` is the same as `name`
+ */
+function compileScopedValue(expression: string, line: number): (value: any) => any {
+    if (expression === 'this' || expression === '.' || expression === '@') {
+        return value => value;
+    }
+    if (LOOP_VARIABLE.test(expression)) {
+        // Loop variables are resolved from the scope, see lookupValue
+        return () => null;
+    }
+    return compileValueExpression(expression.replace(/^this\./, ''), line);
+}
+
+function lookupLoopVariable(name: string, scope: Scope): any {
+    switch (name) {
+        case '@index': return scope.index ?? null;
+        case '@number': return scope.index !== undefined ? scope.index + 1 : null;
+        case '@first': return scope.index !== undefined ? scope.index === 0 : null;
+        case '@last': return scope.index !== undefined && scope.length !== undefined ? scope.index === scope.length - 1 : null;
+        case '@key': return scope.key ?? null;
+        default: return null;
+    }
+}
+
+/**
+ * Evaluate against the current item; plain names fall back to enclosing items, as in mustache
+ */
+function lookupValue(expression: string, evaluate: (value: any) => any, scope: Scope): any {
+    if (LOOP_VARIABLE.test(expression)) {
+        return lookupLoopVariable(expression, scope);
+    }
+
+    const result = evaluate(scope.value);
+    if (result !== null && result !== undefined) {
+        return result;
+    }
+
+    if (SIMPLE_NAME.test(expression)) {
+        for (let parent = scope.parent; parent; parent = parent.parent) {
+            const inherited = evaluate(parent.value);
+            if (inherited !== null && inherited !== undefined) {
+                return inherited;
+            }
+        }
+    }
+    return null;
+}
+
+function isTruthy(value: any): boolean {
+    if (Array.isArray(value)) return value.length > 0;
+    if (value && typeof value === 'object') return Object.keys(value).length > 0;
+    return Boolean(value);
+}
+
+function formatValue(value: any): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], scope: Scope): string {
+    let output = '';
+
+    for (const node of nodes) {
+        if (node.type === 'text') {
+            output += node.text;
+            continue;
+        }
+
+        const value = lookupValue(node.expression, node.evaluate, scope);
+
+        if (node.type === 'value') {
+            output += formatValue(value);
+            continue;
+        }
+
+        if (node.kind === 'each') {
+            const entries: Array<{ item: any; key?: string }> = Array.isArray(value)
+                ? value.map(item => ({ item }))
+                : value && typeof value === 'object'
+                    ? Object.entries(value).map(([key, item]) => ({ item, key }))
+                    : [];
+
+            if (entries.length === 0) {
+                output += renderNodes(node.otherwise, scope);
+                continue;
+            }
+
+            entries.forEach((entry, index) => {
+                output += renderNodes(node.children, {
+                    value: entry.item,
+                    parent: scope,
+                    index,
+                    key: entry.key,
+                    length: entries.length
+                });
+            });
+            continue;
+        }
+
+        const condition = node.kind === 'if' ? isTruthy(value) : !isTruthy(value);
+        output += renderNodes(condition ? node.children : node.otherwise, scope);
+    }
+
+    return output;
+}
+
+/**
+ * Check a template for syntax errors without rendering it
+ */
+export function validateTemplate(source: string): void {
+    compileTemplate(source);
+}
+
+/**
+ * Render a template against the data selected by `path` and `transform`
+ */
+export function renderTemplate(source: string, data: any): string {
+    return renderNodes(compileTemplate(source), { value: data, parent: null });
+}
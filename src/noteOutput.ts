@@ -0,0 +1,147 @@
+import { normalizePath } from 'obsidian';
+
+const MARKER_PREFIX = 'data-fetcher';
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Vault path for `output: note`; `.md` is added unless the path already ends in it,
+ * so `Reports/v1.2` becomes `Reports/v1.2.md`
+ */
+export function resolveNotePath(file: string): string {
+    const path = normalizePath(file.trim());
+    if (!path || path === '/') {
+        throw new Error('`file` must be a note path, e.g. Reports/{{date}}.md');
+    }
+    return /\.md$/i.test(path) ? path : `${path}.md`;
+}
+
+/**
+ * Markers may not contain spaces or `-->`, so ids are reduced to a safe slug
+ */
+export function normalizeSectionId(id: string): string {
+    const normalized = id.trim().replace(/[^\w./:-]+/g, '-').replace(/^-+|-+$/g, '');
+    if (!normalized) {
+        throw new Error(`Invalid block id "${id}"`);
+    }
+    return normalized;
+}
+
+export function buildManagedSection(id: string, body: string): string {
+    return `<!-- ${MARKER_PREFIX}:start ${id} -->\n${body.trimEnd()}\n<!-- ${MARKER_PREFIX}:end ${id} -->`;
+}
+
+/**
+ * Replace the content between the markers for `id`, or append a new managed section.
+ * Everything outside the markers is kept as written.
+ */
+export function replaceManagedSection(content: string, id: string, body: string): string {
+    const section = buildManagedSection(id, body);
+    const pattern = new RegExp(
+        `<!--\\s*${MARKER_PREFIX}:start\\s+${escapeRegExp(id)}\\s*-->[\\s\\S]*?<!--\\s*${MARKER_PREFIX}:end\\s+${escapeRegExp(id)}\\s*-->`
+    );
+
+    if (pattern.test(content)) {
+        return content.replace(pattern, () => section);
+    }
+
+    if (!content.trim()) {
+        return `${section}\n`;
+    }
+    return `${content.replace(/\s*$/, '')}\n\n${section}\n`;
+}
+
+export interface SnapshotQuery {
+    id: string;
+    source: string; // data-query block content kept in the note
+}
+
+export interface BlockRange {
+    start: number; // line of the opening fence
+    end: number; // line of the closing fence
+}
+
+const SNAPSHOT_QUERY_PATTERN = new RegExp(`<!--\\s*${MARKER_PREFIX}:query\\s+(\\S+)[ \\t]*\\n([\\s\\S]*?)-->`, 'g');
+
+/**
+ * Snapshot of a data-query block: the query in an HTML comment, followed by the output in a
+ * managed section that "Update snapshots in note" can rewrite
+ */
+export function buildSnapshot(id: string, source: string, body: string): string {
+    if (source.includes('-->')) {
+        throw new Error('Queries containing "-->" cannot be kept in a snapshot comment');
+    }
+    return `<!-- ${MARKER_PREFIX}:query ${id}\n${source.trim()}\n-->\n${buildManagedSection(id, body)}`;
+}
+
+export function extractSnapshotQueries(content: string): SnapshotQuery[] {
+    const snapshots: SnapshotQuery[] = [];
+    let match: RegExpExecArray | null;
+    SNAPSHOT_QUERY_PATTERN.lastIndex = 0;
+
+    while ((match = SNAPSHOT_QUERY_PATTERN.exec(content)) !== null) {
+        snapshots.push({ id: match[1], source: match[2].trim() });
+    }
+    return snapshots;
+}
+
+/**
+ * The block's own `id`: an unindented `id:` line in an alias block, or the top-level
+ * `"id"` key of a JSON query. Nested ids, e.g. under `variables:`, are ignored.
+ */
+function blockId(lines: string[]): string | null {
+    const source = lines.join('\n').trim();
+    if (source.startsWith('{')) {
+        try {
+            const parsed = JSON.parse(source);
+            return parsed && typeof parsed.id === 'string' ? parsed.id : null;
+        } catch {
+            return null;
+        }
+    }
+
+    for (const line of lines) {
+        const match = line.match(/^id\s*:\s*(.+?)\s*$/);
+        if (match) {
+            return match[1].replace(/^(["'])(.*)\1$/, '$2');
+        }
+    }
+    return null;
+}
+
+/**
+ * Locate a data-query block by its `id`, or by its exact content when it has none.
+ * `hint` (the rendered block's section info) is used first when it still points at the block.
+ */
+export function findDataQueryBlock(lines: string[], source: string, id?: string, hint?: BlockRange): BlockRange | null {
+    const matches = (range: BlockRange): boolean => {
+        const body = lines.slice(range.start + 1, range.end);
+        return id ? blockId(body) === id : body.join('\n').trim() === source.trim();
+    };
+    const isBlock = (range: BlockRange): boolean =>
+        range.end > range.start &&
+        range.end < lines.length &&
+        /^\s*```data-query\b/.test(lines[range.start]) &&
+        lines[range.end].trim() === '```';
+
+    if (hint && isBlock(hint) && matches(hint)) {
+        return hint;
+    }
+
+    for (let start = 0; start < lines.length; start++) {
+        if (!/^\s*```data-query\b/.test(lines[start])) {
+            continue;
+        }
+        let end = start + 1;
+        while (end < lines.length && lines[end].trim() !== '```') {
+            end++;
+        }
+        if (end < lines.length && matches({ start, end })) {
+            return { start, end };
+        }
+        start = end;
+    }
+    return null;
+}
@@ -0,0 +1,210 @@
+import { normalizePath } from 'obsidian';
+import { compileExpression } from './pathQuery';
+import { renderTemplate, validateTemplate } from './markdownTemplate';
+import { PropertyMapping, applyPropertyMappings, getNestedPropertyValue, setNestedPropertyValue } from './frontmatterProperties';
+
+export interface SyncConfig {
+    folder: string;
+    filename: string; // template rendered against each row, e.g. `{{number}} {{title}}`
+    key: string; // field that identifies a row; also written to each note's frontmatter
+    archive?: string; // folder for notes whose row disappeared, or `trash`
+}
+
+export interface ExistingSyncNote {
+    path: string;
+    frontmatter: Record<string, any>;
+}
+
+export type SyncActionKind = 'create' | 'update' | 'unchanged' | 'archive';
+
+export interface SyncAction {
+    kind: SyncActionKind;
+    key: string;
+    path: string;
+    target?: string; // archive destination; absent when the note is moved to the trash
+    properties?: Record<string, any>; // frontmatter written for create and update
+    remove?: string[]; // managed properties an update deletes because the row no longer has them
+}
+
+const MAX_FILENAME_LENGTH = 120;
+const ARCHIVE_TRASH = 'trash';
+
+/**
+ * Build the sync config from the `folder`, `filename`, `key` and `archive` options
+ */
+export function parseSyncConfig(options: { folder?: any; filename?: any; key?: any; archive?: any }): SyncConfig {
+    const folder = normalizePath(String(options.folder ?? '').trim());
+    if (!folder || folder === '/') {
+        throw new Error('`output: sync` requires a `folder`');
+    }
+
+    const key = String(options.key ?? '').trim();
+    if (!key) {
+        throw new Error('`output: sync` requires a `key` field that identifies each row, e.g. key: id');
+    }
+    compileExpression(key);
+
+    const filename = String(options.filename ?? '').trim() || `{{${key}}}`;
+    validateTemplate(filename);
+
+    const config: SyncConfig = { folder, filename, key };
+    const archive = String(options.archive ?? '').trim();
+    if (archive) {
+        config.archive = archive.toLowerCase() === ARCHIVE_TRASH ? ARCHIVE_TRASH : normalizePath(archive);
+        if (config.archive === folder) {
+            throw new Error('`archive` must be a different folder than `folder`');
+        }
+    }
+    return config;
+}
+
+function sanitizeFilename(name: string): string {
+    return name
+        .replace(/[\\/:*?"<>|#^[\]]+/g, '-')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/^\.+/, '')
+        .substring(0, MAX_FILENAME_LENGTH)
+        .trim();
+}
+
+function keyText(value: any): string {
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Frontmatter for a row: the `properties` mapping when given, otherwise every top-level field.
+ * The key field is always included so the note can be matched on the next sync.
+ */
+function rowProperties(row: any, config: SyncConfig, keyValue: any, mappings?: PropertyMapping[]): Record<string, any> {
+    const selected: Record<string, any> = {};
+    if (mappings) {
+        applyPropertyMappings(selected, row, mappings);
+    } else if (row && typeof row === 'object' && !Array.isArray(row)) {
+        Object.assign(selected, row);
+    }
+    // Nested values still belong to the fetched (and cached) result, so the key is set on a copy
+    const properties = copyValue(selected);
+    setNestedPropertyValue(properties, config.key, keyValue);
+    return properties;
+}
+
+function copyValue(value: any): any {
+    if (Array.isArray(value)) {
+        return value.map(copyValue);
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+        const copy: Record<string, any> = {};
+        for (const [name, nested] of Object.entries(value)) {
+            copy[name] = copyValue(nested);
+        }
+        return copy;
+    }
+    return value;
+}
+
+function wouldChange(frontmatter: Record<string, any>, properties: Record<string, any>): boolean {
+    return Object.entries(properties).some(([name, value]) => JSON.stringify(frontmatter[name]) !== JSON.stringify(value));
+}
+
+/**
+ * Properties the sync owns: mappings with `empty=remove`, or without mappings every field
+ * that appears in any row. Properties added to the notes by hand are never in this list.
+ */
+function managedProperties(rows: any[], mappings?: PropertyMapping[]): string[] {
+    if (mappings) {
+        return mappings.filter(mapping => mapping.empty === 'remove').map(mapping => mapping.property);
+    }
+
+    const fields = new Set<string>();
+    for (const row of rows) {
+        if (row && typeof row === 'object' && !Array.isArray(row)) {
+            Object.keys(row).forEach(field => fields.add(field));
+        }
+    }
+    return Array.from(fields);
+}
+
+function readProperty(frontmatter: Record<string, any>, name: string): any {
+    return name in frontmatter ? frontmatter[name] : getNestedPropertyValue(frontmatter, name);
+}
+
+/**
+ * Managed properties the note has but the new row does not
+ */
+function propertiesToRemove(frontmatter: Record<string, any>, properties: Record<string, any>, managed: string[], keyField: string): string[] {
+    return managed.filter(name =>
+        name !== keyField &&
+        readProperty(properties, name) === undefined &&
+        readProperty(frontmatter, name) !== undefined
+    );
+}
+
+/**
+ * Work out which notes to create, update and archive. Notes are matched on the key field
+ * in their frontmatter, so renamed notes and changed filename templates keep working.
+ */
+export function planSync(rows: any[], config: SyncConfig, existing: ExistingSyncNote[], mappings?: PropertyMapping[]): SyncAction[] {
+    if (!Array.isArray(rows)) {
+        throw new Error('Sync needs a list of rows. Use path to select one');
+    }
+
+    const readKey = compileExpression(config.key);
+    const existingByKey = new Map<string, ExistingSyncNote>();
+    for (const note of existing) {
+        const value = readKey(note.frontmatter);
+        if (value !== null && value !== undefined) {
+            existingByKey.set(keyText(value), note);
+        }
+    }
+
+    const managed = managedProperties(rows, mappings);
+    const takenPaths = new Set(existing.map(note => note.path.toLowerCase()));
+    const seenKeys = new Set<string>();
+    const actions: SyncAction[] = [];
+
+    rows.forEach((row, index) => {
+        const keyValue = readKey(row);
+        if (keyValue === null || keyValue === undefined || keyValue === '') {
+            throw new Error(`Row ${index + 1} has no value for key "${config.key}"`);
+        }
+        const key = keyText(keyValue);
+        if (seenKeys.has(key)) {
+            throw new Error(`Key "${config.key}" is not unique: "${key}" appears more than once`);
+        }
+        seenKeys.add(key);
+
+        const properties = rowProperties(row, config, keyValue, mappings);
+        const note = existingByKey.get(key);
+        if (note) {
+            const remove = propertiesToRemove(note.frontmatter, properties, managed, config.key);
+            const changed = wouldChange(note.frontmatter, properties) || remove.length > 0;
+            actions.push({ kind: changed ? 'update' : 'unchanged', key, path: note.path, properties, remove });
+            return;
+        }
+
+        const baseName = sanitizeFilename(renderTemplate(config.filename, row)) || sanitizeFilename(key) || `row-${index + 1}`;
+        let path = `${config.folder}/${baseName}.md`;
+        if (takenPaths.has(path.toLowerCase())) {
+            path = `${config.folder}/${baseName} (${sanitizeFilename(key)}).md`;
+        }
+        takenPaths.add(path.toLowerCase());
+        actions.push({ kind: 'create', key, path, properties });
+    });
+
+    if (config.archive) {
+        for (const [key, note] of existingByKey) {
+            if (!seenKeys.has(key)) {
+                const name = note.path.substring(note.path.lastIndexOf('/') + 1);
+                actions.push({
+                    kind: 'archive',
+                    key,
+                    path: note.path,
+                    target: config.archive === ARCHIVE_TRASH ? undefined : `${config.archive}/${name}`
+                });
+            }
+        }
+    }
+
+    return actions;
+}
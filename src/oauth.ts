@@ -0,0 +1,150 @@
+import { requestUrl } from 'obsidian';
+import { EndpointAuthConfig } from './settings';
+import { SecretResolver, resolveSecretReferences } from './secretStore';
+
+interface CachedToken {
+    accessToken: string;
+    expiresAt: number;
+    refreshToken?: string;
+}
+
+// Renew tokens slightly before the server-side expiry to avoid racing it
+const EXPIRY_MARGIN_MS = 60 * 1000;
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 3600;
+
+export function isOAuth2Enabled(auth?: EndpointAuthConfig): auth is EndpointAuthConfig {
+    return !!auth && auth.type === 'oauth2';
+}
+
+/**
+ * Fetches OAuth2 access tokens and keeps them in memory until they expire
+ */
+export class OAuthTokenManager {
+    private tokens: Map<string, CachedToken> = new Map();
+    private pending: Map<string, Promise<CachedToken>> = new Map();
+    private onRefreshTokenRotated?: (alias: string, refreshToken: string) => void;
+
+    constructor(onRefreshTokenRotated?: (alias: string, refreshToken: string) => void) {
+        this.onRefreshTokenRotated = onRefreshTokenRotated;
+    }
+
+    private tokenKey(auth: EndpointAuthConfig): string {
+        return JSON.stringify([auth.grantType, auth.tokenUrl, auth.clientId, auth.scopes]);
+    }
+
+    /**
+     * Return a valid access token, requesting a new one when missing, expired or forced.
+     * Resolved client secrets and issued tokens are appended to `secretValues` for redaction.
+     * `alias` names the endpoint whose settings receive a rotated refresh token.
+     */
+    async getAccessToken(
+        alias: string,
+        auth: EndpointAuthConfig,
+        secrets: SecretResolver | undefined,
+        secretValues: string[],
+        forceRefresh = false
+    ): Promise<string> {
+        const key = this.tokenKey(auth);
+        const cached = this.tokens.get(key);
+
+        if (cached && !forceRefresh && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+            secretValues.push(cached.accessToken);
+            return cached.accessToken;
+        }
+
+        let pendingToken = this.pending.get(key);
+        if (!pendingToken) {
+            pendingToken = this.requestToken(alias, auth, secrets, secretValues, cached?.refreshToken);
+            this.pending.set(key, pendingToken);
+        }
+
+        try {
+            const token = await pendingToken;
+            this.tokens.set(key, token);
+            secretValues.push(token.accessToken);
+            return token.accessToken;
+        } finally {
+            this.pending.delete(key);
+        }
+    }
+
+    clear(): void {
+        this.tokens.clear();
+    }
+
+    private async requestToken(
+        alias: string,
+        auth: EndpointAuthConfig,
+        secrets: SecretResolver | undefined,
+        secretValues: string[],
+        rotatedRefreshToken?: string
+    ): Promise<CachedToken> {
+        if (!auth.tokenUrl) {
+            throw new Error('OAuth2 token URL is required');
+        }
+
+        const form = new URLSearchParams();
+        form.set('grant_type', auth.grantType);
+
+        if (auth.grantType === 'refresh_token') {
+            const refreshToken = rotatedRefreshToken
+                || resolveSecretReferences(auth.refreshToken || '', secrets, secretValues);
+            if (!refreshToken) {
+                throw new Error('OAuth2 refresh token is required for the refresh_token grant');
+            }
+            secretValues.push(refreshToken);
+            form.set('refresh_token', refreshToken);
+        }
+
+        if (auth.clientId) {
+            form.set('client_id', auth.clientId);
+        }
+        if (auth.clientSecret) {
+            form.set('client_secret', resolveSecretReferences(auth.clientSecret, secrets, secretValues));
+        }
+        if (auth.scopes && auth.scopes.trim()) {
+            form.set('scope', auth.scopes.trim());
+        }
+
+        const response = await requestUrl({
+            url: auth.tokenUrl,
+            method: 'POST',
+            contentType: 'application/x-www-form-urlencoded',
+            headers: { Accept: 'application/json' },
+            body: form.toString(),
+            throw: false
+        });
+
+        if (response.status >= 400) {
+            throw new Error(`OAuth2 token request failed, status ${response.status}`);
+        }
+
+        let payload: any;
+        try {
+            payload = response.json;
+        } catch {
+            throw new Error('OAuth2 token response is not valid JSON');
+        }
+
+        if (!payload || typeof payload.access_token !== 'string') {
+            throw new Error('OAuth2 token response does not contain an access_token');
+        }
+
+        const expiresIn = Number(payload.expires_in) || DEFAULT_TOKEN_LIFETIME_SECONDS;
+        const token: CachedToken = {
+            accessToken: payload.access_token,
+            expiresAt: Date.now() + expiresIn * 1000,
+            refreshToken: rotatedRefreshToken
+        };
+
+        if (typeof payload.refresh_token === 'string' && payload.refresh_token) {
+            token.refreshToken = payload.refresh_token;
+            secretValues.push(payload.refresh_token);
+            if (auth.grantType === 'refresh_token' && this.onRefreshTokenRotated) {
+                this.onRefreshTokenRotated(alias, payload.refresh_token);
+            }
+        }
+
+        return token;
+    }
+}
@@ -0,0 +1,357 @@
+export type PaginationStrategy = 'relay' | 'link' | 'offset' | 'page';
+
+export interface PaginationConfig {
+    strategy: PaginationStrategy;
+    path?: string; // relay: connection path, REST: items array path
+    cursorVariable: string;
+    offsetParam: string;
+    limitParam: string;
+    pageParam: string;
+    pageSize?: number;
+    startPage: number;
+    maxPages: number;
+    maxItems: number;
+}
+
+export interface PageResponse {
+    data: any;
+    headers: Record<string, string>;
+}
+
+const DEFAULT_MAX_PAGES = 10;
+const DEFAULT_MAX_ITEMS = 1000;
+const DEFAULT_OFFSET_PAGE_SIZE = 100;
+const STRATEGIES: PaginationStrategy[] = ['relay', 'link', 'offset', 'page'];
+
+// Shorthand option names accepted in `paginate: offset limit=50 maxPages=5`
+const OPTION_ALIASES: Record<string, keyof PaginationConfig> = {
+    path: 'path',
+    cursor: 'cursorVariable',
+    cursorvariable: 'cursorVariable',
+    offsetparam: 'offsetParam',
+    limitparam: 'limitParam',
+    pageparam: 'pageParam',
+    limit: 'pageSize',
+    pagesize: 'pageSize',
+    start: 'startPage',
+    startpage: 'startPage',
+    maxpages: 'maxPages',
+    maxitems: 'maxItems'
+};
+
+const NUMERIC_OPTIONS: Array<keyof PaginationConfig> = ['pageSize', 'startPage', 'maxPages', 'maxItems'];
+
+function parsePositiveInteger(name: string, value: any, allowZero = false): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < (allowZero ? 0 : 1)) {
+        throw new Error(`Pagination option "${name}" must be a ${allowZero ? 'non-negative' : 'positive'} integer`);
+    }
+    return parsed;
+}
+
+/**
+ * Parse a `paginate` directive: either a strategy name with optional `key=value` options
+ * or an object such as `{"strategy": "relay", "path": "viewer.repositories"}`
+ */
+export function parsePaginationConfig(value: any): PaginationConfig {
+    let options: Record<string, any>;
+
+    if (typeof value === 'string') {
+        const trimmed = value.trim();
+        if (trimmed.startsWith('{')) {
+            try {
+                options = JSON.parse(trimmed);
+            } catch {
+                throw new Error('Pagination options must be valid JSON');
+            }
+        } else {
+            const [strategy, ...pairs] = trimmed.split(/\s+/);
+            options = { strategy };
+            for (const pair of pairs) {
+                const separatorIndex = pair.indexOf('=');
+                if (separatorIndex <= 0) {
+                    throw new Error(`Invalid pagination option "${pair}". Use key=value`);
+                }
+                options[pair.substring(0, separatorIndex)] = pair.substring(separatorIndex + 1);
+            }
+        }
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+        options = value;
+    } else {
+        throw new Error('Pagination must be a strategy name or an options object');
+    }
+
+    const strategy = String(options.strategy || '').trim().toLowerCase() as PaginationStrategy;
+    if (!STRATEGIES.includes(strategy)) {
+        throw new Error(`Unsupported pagination strategy "${options.strategy}". Use ${STRATEGIES.map(s => `"${s}"`).join(', ')}`);
+    }
+
+    const config: PaginationConfig = {
+        strategy,
+        cursorVariable: 'after',
+        offsetParam: 'offset',
+        limitParam: 'limit',
+        pageParam: 'page',
+        startPage: 1,
+        maxPages: DEFAULT_MAX_PAGES,
+        maxItems: DEFAULT_MAX_ITEMS
+    };
+
+    for (const [rawKey, rawValue] of Object.entries(options)) {
+        if (rawKey === 'strategy') {
+            continue;
+        }
+
+        const key = OPTION_ALIASES[rawKey.toLowerCase()];
+        if (!key) {
+            throw new Error(`Unknown pagination option "${rawKey}"`);
+        }
+
+        if (NUMERIC_OPTIONS.includes(key)) {
+            (config as any)[key] = parsePositiveInteger(rawKey, rawValue, key === 'startPage');
+        } else {
+            (config as any)[key] = String(rawValue).trim();
+        }
+    }
+
+    if (config.strategy === 'offset' && !config.pageSize) {
+        config.pageSize = DEFAULT_OFFSET_PAGE_SIZE;
+    }
+
+    return config;
+}
+
+function getByDotPath(data: any, path: string): any {
+    let current = data;
+    for (const segment of path.split('.').map(part => part.trim()).filter(Boolean)) {
+        if (current === null || current === undefined || typeof current !== 'object') {
+            return undefined;
+        }
+        current = current[segment];
+    }
+    return current;
+}
+
+/**
+ * Resolve a path, also trying inside the common GraphQL `{ data: ... }` envelope
+ */
+function resolvePaginationPath(data: any, path: string): any {
+    const direct = getByDotPath(data, path);
+    if (direct !== undefined) {
+        return direct;
+    }
+    if (data && typeof data === 'object' && data.data && typeof data.data === 'object') {
+        return getByDotPath(data.data, path);
+    }
+    return undefined;
+}
+
+function findConnection(data: any, depth = 0): Record<string, any> | null {
+    if (depth > 8 || !data || typeof data !== 'object' || Array.isArray(data)) {
+        return null;
+    }
+    if (data.pageInfo && typeof data.pageInfo === 'object') {
+        return data;
+    }
+    for (const value of Object.values(data)) {
+        const connection = findConnection(value, depth + 1);
+        if (connection) {
+            return connection;
+        }
+    }
+    return null;
+}
+
+function resolveConnection(data: any, config: PaginationConfig): Record<string, any> {
+    const connection = config.path ? resolvePaginationPath(data, config.path) : findConnection(data);
+    if (!connection || typeof connection !== 'object' || !connection.pageInfo) {
+        throw new Error(config.path
+            ? `Pagination path "${config.path}" does not point to a connection with pageInfo`
+            : 'Pagination could not find a connection with pageInfo. Set the paginate path option');
+    }
+    return connection;
+}
+
+function resolveItems(data: any, config: PaginationConfig): any[] {
+    if (config.path) {
+        const items = resolvePaginationPath(data, config.path);
+        if (!Array.isArray(items)) {
+            throw new Error(`Pagination path "${config.path}" does not point to an array`);
+        }
+        return items;
+    }
+
+    if (Array.isArray(data)) {
+        return data;
+    }
+
+    if (data && typeof data === 'object') {
+        for (const key of ['items', 'results', 'data', 'values', 'records']) {
+            if (Array.isArray(data[key])) {
+                return data[key];
+            }
+        }
+        for (const value of Object.values(data)) {
+            if (Array.isArray(value)) {
+                return value;
+            }
+        }
+    }
+
+    throw new Error('Pagination could not find an array of items in the response. Set the paginate path option');
+}
+
+function connectionItemCount(connection: Record<string, any>): number {
+    if (Array.isArray(connection.edges)) return connection.edges.length;
+    if (Array.isArray(connection.nodes)) return connection.nodes.length;
+    return 0;
+}
+
+function truncateConnection(connection: Record<string, any>, maxItems: number): void {
+    if (Array.isArray(connection.edges)) connection.edges.length = Math.min(connection.edges.length, maxItems);
+    if (Array.isArray(connection.nodes)) connection.nodes.length = Math.min(connection.nodes.length, maxItems);
+}
+
+/**
+ * Follow Relay-style cursors, feeding `pageInfo.endCursor` back into the query variables.
+ * Edges and nodes of later pages are appended to the connection of the first page.
+ */
+export async function fetchRelayPages(
+    config: PaginationConfig,
+    variables: Record<string, any>,
+    fetchPage: (variables: Record<string, any>) => Promise<any>
+): Promise<any> {
+    let combined: any = null;
+    let combinedConnection: Record<string, any> | null = null;
+    let pageVariables = { ...variables };
+
+    for (let page = 0; page < config.maxPages; page++) {
+        const data = await fetchPage(pageVariables);
+        const connection = resolveConnection(data, config);
+
+        if (!combinedConnection) {
+            combined = data;
+            combinedConnection = connection;
+        } else {
+            for (const key of ['edges', 'nodes']) {
+                if (Array.isArray(connection[key])) {
+                    combinedConnection[key] = (combinedConnection[key] || []).concat(connection[key]);
+                }
+            }
+            combinedConnection.pageInfo = connection.pageInfo;
+        }
+
+        if (connectionItemCount(combinedConnection) >= config.maxItems) {
+            truncateConnection(combinedConnection, config.maxItems);
+            break;
+        }
+
+        const { hasNextPage, endCursor } = connection.pageInfo;
+        if (!hasNextPage || endCursor === null || endCursor === undefined) {
+            break;
+        }
+
+        pageVariables = { ...pageVariables, [config.cursorVariable]: endCursor };
+    }
+
+    return combined;
+}
+
+/**
+ * Case-insensitive response header lookup
+ */
+export function findHeader(headers: Record<string, string>, name: string): string | undefined {
+    const lowerName = name.toLowerCase();
+    for (const [key, value] of Object.entries(headers || {})) {
+        if (key.toLowerCase() === lowerName) {
+            return value;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Extract the `rel="next"` target from an RFC 8288 Link header
+ */
+export function parseNextLink(linkHeader: string | undefined, baseUrl: string): string | null {
+    if (!linkHeader) {
+        return null;
+    }
+
+    for (const part of linkHeader.split(',')) {
+        const match = part.match(/<([^>]+)>\s*;(.*)$/);
+        const rel = match ? match[2].match(/\brel\s*=\s*"?([^";]+)"?/i) : null;
+        if (match && rel && rel[1].toLowerCase().split(/\s+/).includes('next')) {
+            return new URL(match[1].trim(), baseUrl).toString();
+        }
+    }
+
+    return null;
+}
+
+function withQueryParams(url: string, values: Record<string, number>): string {
+    const parsed = new URL(url);
+    for (const [key, value] of Object.entries(values)) {
+        parsed.searchParams.set(key, String(value));
+    }
+    return parsed.toString();
+}
+
+/**
+ * Fetch REST pages using Link headers, offset/limit or page-number parameters.
+ * Items of later pages are appended to the item array of the first page.
+ */
+export async function fetchRestPages(
+    config: PaginationConfig,
+    baseUrl: string,
+    fetchPage: (url: string) => Promise<PageResponse>
+): Promise<any> {
+    const pageSize = config.pageSize;
+    const pageUrl = (page: number): string => {
+        if (config.strategy === 'offset') {
+            return withQueryParams(baseUrl, {
+                [config.offsetParam]: page * (pageSize as number),
+                [config.limitParam]: pageSize as number
+            });
+        }
+        if (config.strategy === 'page') {
+            const values: Record<string, number> = { [config.pageParam]: config.startPage + page };
+            if (pageSize) {
+                values[config.limitParam] = pageSize;
+            }
+            return withQueryParams(baseUrl, values);
+        }
+        return baseUrl;
+    };
+
+    let combined: any = null;
+    let combinedItems: any[] = [];
+    let url: string | null = pageUrl(0);
+
+    for (let page = 0; page < config.maxPages && url; page++) {
+        const response = await fetchPage(url);
+        const items = resolveItems(response.data, config);
+
+        if (page === 0) {
+            combined = response.data;
+            combinedItems = items;
+        } else {
+            combinedItems.push(...items);
+        }
+
+        if (combinedItems.length >= config.maxItems) {
+            combinedItems.length = config.maxItems;
+            break;
+        }
+
+        if (config.strategy === 'link') {
+            url = parseNextLink(findHeader(response.headers, 'link'), url);
+        } else if (items.length === 0 || (pageSize && items.length < pageSize)) {
+            url = null;
+        } else {
+            url = pageUrl(page + 1);
+        }
+    }
+
+    return combined;
+}
@@ -0,0 +1,1024 @@
+/**
+ * Path expressions for `path` and `output: frontmatter`, modeled on JMESPath:
+ * `items[*].name`, `items[?status == 'open']`, `items[0:5]`, `sort_by(items, &date)[-1]`.
+ * Legacy dot paths keep working: numeric dot segments index arrays (`data.items.0`),
+ * identifiers may contain dashes, and dotted paths that are not valid expressions
+ * (`@type`, `2024-01`) are resolved segment by segment as before.
+ */
+
+type TokenType =
+    | 'identifier' | 'quoted' | 'raw' | 'literal' | 'number'
+    | 'dot' | 'star' | 'current' | 'expref' | 'comma' | 'colon' | 'pipe' | 'or' | 'and' | 'not'
+    | 'eq' | 'ne' | 'lt' | 'lte' | 'gt' | 'gte'
+    | 'lbracket' | 'rbracket' | 'filter' | 'flatten' | 'lbrace' | 'rbrace' | 'lparen' | 'rparen' | 'eof';
+
+interface Token {
+    type: TokenType;
+    value?: any;
+    start: number;
+    end: number;
+}
+
+type PathNode =
+    | { type: 'identity'; start: number; end: number }
+    | { type: 'current'; start: number; end: number }
+    | { type: 'literal'; value: any; start: number; end: number }
+    | { type: 'field'; name: string; start: number; end: number }
+    | { type: 'index'; index: number; dotted: boolean; start: number; end: number }
+    | { type: 'slice'; from: number | null; to: number | null; step: number | null; start: number; end: number }
+    | { type: 'subexpression'; left: PathNode; right: PathNode; start: number; end: number }
+    | { type: 'pipe'; left: PathNode; right: PathNode; start: number; end: number }
+    | { type: 'projection'; left: PathNode; right: PathNode; start: number; end: number }
+    | { type: 'valueProjection'; left: PathNode; right: PathNode; start: number; end: number }
+    | { type: 'filterProjection'; left: PathNode; condition: PathNode; right: PathNode; start: number; end: number }
+    | { type: 'flatten'; child: PathNode; start: number; end: number }
+    | { type: 'or' | 'and'; left: PathNode; right: PathNode; start: number; end: number }
+    | { type: 'not'; child: PathNode; start: number; end: number }
+    | { type: 'comparator'; op: TokenType; left: PathNode; right: PathNode; start: number; end: number }
+    | { type: 'multiList'; children: PathNode[]; start: number; end: number }
+    | { type: 'multiHash'; entries: Array<{ key: string; value: PathNode }>; start: number; end: number }
+    | { type: 'function'; name: string; args: PathNode[]; start: number; end: number }
+    | { type: 'expref'; child: PathNode; start: number; end: number };
+
+const BINDING_POWER: Partial<Record<TokenType, number>> = {
+    pipe: 1,
+    or: 2,
+    and: 3,
+    eq: 5, ne: 5, lt: 5, lte: 5, gt: 5, gte: 5,
+    flatten: 9,
+    star: 20,
+    filter: 21,
+    dot: 40,
+    not: 45,
+    lbrace: 50,
+    lbracket: 55,
+    lparen: 60
+};
+
+// Tokens binding weaker than this end a projection
+const PROJECTION_STOP = 10;
+
+const TWO_CHAR_TOKENS: Record<string, TokenType> = {
+    '||': 'or', '&&': 'and', '==': 'eq', '!=': 'ne', '<=': 'lte', '>=': 'gte', '[?': 'filter', '[]': 'flatten'
+};
+
+const ONE_CHAR_TOKENS: Record<string, TokenType> = {
+    '.': 'dot', '*': 'star', '@': 'current', ',': 'comma', ':': 'colon', '|': 'pipe', '&': 'expref', '!': 'not',
+    '<': 'lt', '>': 'gt', '[': 'lbracket', ']': 'rbracket', '{': 'lbrace', '}': 'rbrace', '(': 'lparen', ')': 'rparen'
+};
+
+const TOKEN_LABELS: Partial<Record<TokenType, string>> = {
+    eof: 'end of path', rbracket: '"]"', rparen: '")"', rbrace: '"}"', colon: '":"', comma: '","'
+};
+
+function syntaxError(expression: string, position: number, reason: string): Error {
+    const found = position < expression.length ? `"${expression[position]}"` : 'end of path';
+    return new Error(`${reason} at position ${position + 1} (${found})`);
+}
+
+function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    const readDelimited = (quote: string): string => {
+        let j = i + 1;
+        let raw = '';
+        while (j < expression.length && expression[j] !== quote) {
+            if (expression[j] === '\\' && j + 1 < expression.length) {
+                raw += expression[j] + expression[j + 1];
+                j += 2;
+                continue;
+            }
+            raw += expression[j];
+            j++;
+        }
+        if (j >= expression.length) {
+            throw syntaxError(expression, i, `unterminated ${quote} quote`);
+        }
+        i = j + 1;
+        return raw;
+    };
+
+    while (i < expression.length) {
+        const char = expression[i];
+        const start = i;
+
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        if (/[A-Za-z_$]/.test(char)) {
+            let j = i + 1;
+            while (j < expression.length && /[A-Za-z0-9_$-]/.test(expression[j])) j++;
+            tokens.push({ type: 'identifier', value: expression.slice(i, j), start, end: j });
+            i = j;
+            continue;
+        }
+
+        if (/[0-9]/.test(char) || (char === '-' && /[0-9]/.test(expression[i + 1] || ''))) {
+            let j = i + 1;
+            while (j < expression.length && /[0-9]/.test(expression[j])) j++;
+            // Decimal literals are only meaningful as comparison operands
+            if (expression[j] === '.' && /[0-9]/.test(expression[j + 1] || '') && tokens[tokens.length - 1]?.type !== 'dot') {
+                j++;
+                while (j < expression.length && /[0-9]/.test(expression[j])) j++;
+            }
+            tokens.push({ type: 'number', value: Number(expression.slice(i, j)), start, end: j });
+            i = j;
+            continue;
+        }
+
+        if (char === '"') {
+            const raw = readDelimited('"');
+            let value: string;
+            try {
+                value = JSON.parse(`"${raw}"`);
+            } catch {
+                throw syntaxError(expression, start, 'invalid quoted identifier');
+            }
+            tokens.push({ type: 'quoted', value, start, end: i });
+            continue;
+        }
+
+        if (char === "'") {
+            const raw = readDelimited("'");
+            tokens.push({ type: 'raw', value: raw.replace(/\\'/g, "'"), start, end: i });
+            continue;
+        }
+
+        if (char === '`') {
+            const raw = readDelimited('`').replace(/\\`/g, '`');
+            let value: any;
+            try {
+                value = JSON.parse(raw);
+            } catch {
+                // JMESPath accepts bare strings in literals, e.g. `open`
+                value = raw.trim();
+            }
+            tokens.push({ type: 'literal', value, start, end: i });
+            continue;
+        }
+
+        const two = expression.slice(i, i + 2);
+        if (TWO_CHAR_TOKENS[two]) {
+            tokens.push({ type: TWO_CHAR_TOKENS[two], start, end: i + 2 });
+            i += 2;
+            continue;
+        }
+
+        if (ONE_CHAR_TOKENS[char]) {
+            tokens.push({ type: ONE_CHAR_TOKENS[char], start, end: i + 1 });
+            i++;
+            continue;
+        }
+
+        if (char === '=') {
+            throw syntaxError(expression, i, 'use "==" to compare values');
+        }
+
+        throw syntaxError(expression, i, 'unexpected character');
+    }
+
+    tokens.push({ type: 'eof', start: expression.length, end: expression.length });
+    return tokens;
+}
+
+class PathParser {
+    private tokens: Token[];
+    private position = 0;
+
+    constructor(private expression: string) {
+        this.tokens = tokenize(expression);
+    }
+
+    parse(): PathNode {
+        const node = this.parseExpression(0);
+        if (this.peek().type !== 'eof') {
+            throw this.error(this.peek(), 'unexpected token');
+        }
+        return node;
+    }
+
+    private peek(offset = 0): Token {
+        return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+    }
+
+    private next(): Token {
+        const token = this.peek();
+        this.position++;
+        return token;
+    }
+
+    private expect(type: TokenType): Token {
+        const token = this.peek();
+        if (token.type !== type) {
+            throw this.error(token, `expected ${TOKEN_LABELS[type] || type}`);
+        }
+        return this.next();
+    }
+
+    private error(token: Token, reason: string): Error {
+        return syntaxError(this.expression, token.start, reason);
+    }
+
+    private bindingPower(token: Token): number {
+        return BINDING_POWER[token.type] || 0;
+    }
+
+    private parseExpression(rbp: number): PathNode {
+        let left = this.nud(this.next());
+        while (rbp < this.bindingPower(this.peek())) {
+            left = this.led(this.next(), left);
+        }
+        return left;
+    }
+
+    private nud(token: Token): PathNode {
+        const { start, end } = token;
+
+        switch (token.type) {
+            case 'literal':
+            case 'raw':
+                return { type: 'literal', value: token.value, start, end };
+            case 'identifier':
+                return { type: 'field', name: token.value, start, end };
+            case 'quoted':
+                if (this.peek().type === 'lparen') {
+                    throw this.error(this.peek(), 'quoted identifiers cannot be called as functions');
+                }
+                return { type: 'field', name: token.value, start, end };
+            case 'number': {
+                // A leading number or one followed by a path segment is an index (`0.title`),
+                // elsewhere it is a value (`[?count > 5]`)
+                const indexPosition = start === this.tokens[0].start || ['dot', 'lbracket', 'filter', 'flatten'].includes(this.peek().type);
+                if (indexPosition && Number.isInteger(token.value)) {
+                    return { type: 'index', index: token.value, dotted: true, start, end };
+                }
+                return { type: 'literal', value: token.value, start, end };
+            }
+            case 'current':
+                return { type: 'current', start, end };
+            case 'star': {
+                const right = this.parseProjectionRHS(BINDING_POWER.star as number);
+                return { type: 'valueProjection', left: { type: 'identity', start, end: start }, right, start, end: right.end || end };
+            }
+            case 'filter':
+                return this.parseFilter({ type: 'identity', start, end: start }, token);
+            case 'flatten': {
+                const flattened: PathNode = { type: 'flatten', child: { type: 'identity', start, end: start }, start, end };
+                const right = this.parseProjectionRHS(BINDING_POWER.flatten as number);
+                return { type: 'projection', left: flattened, right, start, end: Math.max(end, right.end) };
+            }
+            case 'lbracket':
+                return this.parseBracket({ type: 'identity', start, end: start }, token);
+            case 'lbrace':
+                return this.parseMultiHash(token);
+            case 'expref': {
+                const child = this.parseExpression(60);
+                return { type: 'expref', child, start, end: child.end };
+            }
+            case 'not': {
+                const child = this.parseExpression(BINDING_POWER.not as number);
+                return { type: 'not', child, start, end: child.end };
+            }
+            case 'lparen': {
+                const inner = this.parseExpression(0);
+                this.expect('rparen');
+                return inner;
+            }
+            default:
+                throw this.error(token, token.type === 'eof' ? 'path ends unexpectedly' : 'expected a value');
+        }
+    }
+
+    private led(token: Token, left: PathNode): PathNode {
+        const start = left.start;
+
+        switch (token.type) {
+            case 'dot': {
+                if (this.peek().type === 'star') {
+                    this.next();
+                    const right = this.parseProjectionRHS(BINDING_POWER.star as number);
+                    return { type: 'valueProjection', left, right, start, end: Math.max(token.end + 1, right.end) };
+                }
+                const right = this.parseDotRHS(BINDING_POWER.dot as number);
+                return { type: 'subexpression', left, right, start, end: right.end };
+            }
+            case 'pipe': {
+                const right = this.parseExpression(BINDING_POWER.pipe as number);
+                return { type: 'pipe', left, right, start, end: right.end };
+            }
+            case 'or':
+            case 'and': {
+                const right = this.parseExpression(BINDING_POWER[token.type] as number);
+                return { type: token.type, left, right, start, end: right.end };
+            }
+            case 'eq':
+            case 'ne':
+            case 'lt':
+            case 'lte':
+            case 'gt':
+            case 'gte': {
+                const right = this.parseExpression(BINDING_POWER[token.type] as number);
+                return { type: 'comparator', op: token.type, left, right, start, end: right.end };
+            }
+            case 'lparen': {
+                if (left.type !== 'field') {
+                    throw this.error(token, 'only function names can be called');
+                }
+                const args: PathNode[] = [];
+                while (this.peek().type !== 'rparen') {
+                    args.push(this.parseExpression(0));
+                    if (this.peek().type === 'comma') {
+                        this.next();
+                    } else if (this.peek().type !== 'rparen') {
+                        throw this.error(this.peek(), 'expected "," or ")"');
+                    }
+                }
+                const close = this.next();
+                return { type: 'function', name: left.name, args, start, end: close.end };
+            }
+            case 'filter':
+                return this.parseFilter(left, token);
+            case 'flatten': {
+                const flattened: PathNode = { type: 'flatten', child: left, start, end: token.end };
+                const right = this.parseProjectionRHS(BINDING_POWER.flatten as number);
+                return { type: 'projection', left: flattened, right, start, end: Math.max(token.end, right.end) };
+            }
+            case 'lbracket':
+                return this.parseBracket(left, token);
+            default:
+                throw this.error(token, 'unexpected token');
+        }
+    }
+
+    /**
+     * `[0]`, `[-1]`, `[1:3]`, `[*]` or a multi-select list `[a, b]`
+     */
+    private parseBracket(left: PathNode, open: Token): PathNode {
+        const next = this.peek();
+
+        if (next.type === 'star' && this.peek(1).type === 'rbracket') {
+            this.next();
+            const close = this.next();
+            const right = this.parseProjectionRHS(BINDING_POWER.star as number);
+            return { type: 'projection', left, right, start: left.start, end: Math.max(close.end, right.end) };
+        }
+
+        if (next.type === 'number' || next.type === 'colon') {
+            const selector = this.parseIndexOrSlice(open);
+            const indexed: PathNode = left.type === 'identity'
+                ? selector
+                : { type: 'subexpression', left, right: selector, start: left.start, end: selector.end };
+
+            if (selector.type === 'slice') {
+                const right = this.parseProjectionRHS(BINDING_POWER.star as number);
+                return { type: 'projection', left: indexed, right, start: left.start, end: Math.max(selector.end, right.end) };
+            }
+            return indexed;
+        }
+
+        if (left.type !== 'identity') {
+            throw this.error(next, 'expected an index, slice or "*"');
+        }
+
+        return this.parseMultiList(open);
+    }
+
+    private parseIndexOrSlice(open: Token): PathNode {
+        const parts: Array<number | null> = [null, null, null];
+        let part = 0;
+
+        while (this.peek().type !== 'rbracket') {
+            const token = this.next();
+            if (token.type === 'colon') {
+                part++;
+                if (part > 2) {
+                    throw this.error(token, 'too many ":" in slice');
+                }
+            } else if (token.type === 'number') {
+                if (!Number.isInteger(token.value)) {
+                    throw this.error(token, 'indexes must be whole numbers');
+                }
+                parts[part] = token.value;
+            } else {
+                throw this.error(token, 'expected a number or ":"');
+            }
+        }
+        const close = this.next();
+
+        if (part === 0) {
+            return { type: 'index', index: parts[0] as number, dotted: false, start: open.start, end: close.end };
+        }
+        if (parts[2] === 0) {
+            throw syntaxError(this.expression, open.start, 'slice step cannot be 0');
+        }
+        return { type: 'slice', from: parts[0], to: parts[1], step: parts[2], start: open.start, end: close.end };
+    }
+
+    private parseFilter(left: PathNode, open: Token): PathNode {
+        const condition = this.parseExpression(0);
+        const close = this.expect('rbracket');
+        const right = this.parseProjectionRHS(BINDING_POWER.filter as number);
+        return { type: 'filterProjection', left, condition, right, start: left.type === 'identity' ? open.start : left.start, end: Math.max(close.end, right.end) };
+    }
+
+    private parseMultiList(open: Token): PathNode {
+        const children: PathNode[] = [];
+        for (;;) {
+            children.push(this.parseExpression(0));
+            const token = this.next();
+            if (token.type === 'rbracket') {
+                return { type: 'multiList', children, start: open.start, end: token.end };
+            }
+            if (token.type !== 'comma') {
+                throw this.error(token, 'expected "," or "]"');
+            }
+        }
+    }
+
+    private parseMultiHash(open: Token): PathNode {
+        const entries: Array<{ key: string; value: PathNode }> = [];
+        for (;;) {
+            const keyToken = this.next();
+            if (keyToken.type !== 'identifier' && keyToken.type !== 'quoted') {
+                throw this.error(keyToken, 'expected a key name');
+            }
+            this.expect('colon');
+            entries.push({ key: keyToken.value, value: this.parseExpression(0) });
+
+            const token = this.next();
+            if (token.type === 'rbrace') {
+                return { type: 'multiHash', entries, start: open.start, end: token.end };
+            }
+            if (token.type !== 'comma') {
+                throw this.error(token, 'expected "," or "}"');
+            }
+        }
+    }
+
+    private parseDotRHS(rbp: number): PathNode {
+        const token = this.peek();
+
+        switch (token.type) {
+            case 'identifier':
+            case 'quoted':
+            case 'star':
+                return this.parseExpression(rbp);
+            case 'number':
+                // Legacy dot index: `items.0.name`
+                this.next();
+                if (!Number.isInteger(token.value) || token.value < 0) {
+                    throw this.error(token, 'expected an array index');
+                }
+                return { type: 'index', index: token.value, dotted: true, start: token.start, end: token.end };
+            case 'lbracket':
+                this.next();
+                return this.parseMultiList(token);
+            case 'lbrace':
+                this.next();
+                return this.parseMultiHash(token);
+            default:
+                throw this.error(token, 'expected a property name after "."');
+        }
+    }
+
+    private parseProjectionRHS(rbp: number): PathNode {
+        const token = this.peek();
+
+        if (this.bindingPower(token) < PROJECTION_STOP) {
+            return { type: 'identity', start: token.start, end: 0 };
+        }
+        if (token.type === 'lbracket' || token.type === 'filter' || token.type === 'flatten') {
+            return this.parseExpression(rbp);
+        }
+        if (token.type === 'dot') {
+            this.next();
+            return this.parseDotRHS(rbp);
+        }
+        throw this.error(token, 'unexpected token after projection');
+    }
+}
+
+/**
+ * Raised when a parsed path cannot be applied to the data
+ */
+class PathEvaluationError extends Error {}
+
+function typeName(value: any): string {
+    if (value === null || value === undefined) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'object') return 'object';
+    return typeof value;
+}
+
+function isObject(value: any): value is Record<string, any> {
+    return typeName(value) === 'object';
+}
+
+function isTruthy(value: any): boolean {
+    if (value === null || value === undefined || value === false || value === '') return false;
+    if (Array.isArray(value)) return value.length > 0;
+    if (isObject(value)) return Object.keys(value).length > 0;
+    return true;
+}
+
+function deepEqual(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (typeName(a) !== typeName(b)) return (a === null || a === undefined) && (b === null || b === undefined);
+    if (Array.isArray(a)) {
+        return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+    }
+    if (isObject(a)) {
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length && keys.every(key => key in b && deepEqual(a[key], b[key]));
+    }
+    return false;
+}
+
+function sliceValues(value: any[] | string, from: number | null, to: number | null, step: number | null): any[] | string {
+    const length = value.length;
+    const stepValue = step ?? 1;
+    const clamp = (index: number | null, fallback: number): number => {
+        if (index === null) return fallback;
+        if (index < 0) return Math.max(stepValue < 0 ? -1 : 0, length + index);
+        return Math.min(index, stepValue < 0 ? length - 1 : length);
+    };
+    const begin = clamp(from, stepValue < 0 ? length - 1 : 0);
+    const stop = clamp(to, stepValue < 0 ? -1 : length);
+
+    const items: any[] = [];
+    for (let i = begin; stepValue > 0 ? i < stop : i > stop; i += stepValue) {
+        items.push(value[i]);
+    }
+    return typeof value === 'string' ? items.join('') : items;
+}
+
+interface ExpressionReference {
+    expref: PathNode;
+}
+
+type PathFunction = (args: any[], call: (ref: ExpressionReference, value: any) => any) => any;
+
+function requireType(name: string, position: number, value: any, ...types: string[]): void {
+    if (!types.includes(typeName(value))) {
+        const expected = types.length > 1 ? `${types.slice(0, -1).join(', ')} or ${types[types.length - 1]}` : types[0];
+        throw new PathEvaluationError(`${name}() expects ${expected} as argument ${position}, got ${typeName(value)}`);
+    }
+}
+
+function requireExpref(name: string, position: number, value: any): ExpressionReference {
+    if (!value || typeof value !== 'object' || !('expref' in value)) {
+        throw new PathEvaluationError(`${name}() expects an expression such as &field as argument ${position}`);
+    }
+    return value as ExpressionReference;
+}
+
+function requireSortable(name: string, values: any[]): void {
+    const types = new Set(values.map(typeName));
+    if (types.size > 1 || (types.size === 1 && !types.has('number') && !types.has('string'))) {
+        throw new PathEvaluationError(`${name}() can only compare numbers or strings, got ${Array.from(types).join(', ')}`);
+    }
+}
+
+function compareSortable(a: any, b: any): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function sortByKey(name: string, items: any[], ref: ExpressionReference, call: (ref: ExpressionReference, value: any) => any): any[] {
+    const keyed = items.map((item, index) => ({ item, index, key: call(ref, item) }));
+    requireSortable(name, keyed.map(entry => entry.key));
+    return keyed
+        .sort((a, b) => compareSortable(a.key, b.key) || a.index - b.index)
+        .map(entry => entry.item);
+}
+
+const FUNCTIONS: Record<string, { arity: [number, number]; run: PathFunction }> = {
+    abs: { arity: [1, 1], run: ([n]) => { requireType('abs', 1, n, 'number'); return Math.abs(n); } },
+    avg: {
+        arity: [1, 1],
+        run: ([items]) => {
+            requireType('avg', 1, items, 'array');
+            items.forEach((item: any) => requireType('avg', 1, item, 'number'));
+            return items.length ? items.reduce((sum: number, n: number) => sum + n, 0) / items.length : null;
+        }
+    },
+    ceil: { arity: [1, 1], run: ([n]) => { requireType('ceil', 1, n, 'number'); return Math.ceil(n); } },
+    contains: {
+        arity: [2, 2],
+        run: ([subject, search]) => {
+            requireType('contains', 1, subject, 'array', 'string');
+            return typeof subject === 'string'
+                ? subject.includes(String(search))
+                : subject.some((item: any) => deepEqual(item, search));
+        }
+    },
+    ends_with: {
+        arity: [2, 2],
+        run: ([subject, suffix]) => {
+            requireType('ends_with', 1, subject, 'string');
+            requireType('ends_with', 2, suffix, 'string');
+            return subject.endsWith(suffix);
+        }
+    },
+    floor: { arity: [1, 1], run: ([n]) => { requireType('floor', 1, n, 'number'); return Math.floor(n); } },
+    join: {
+        arity: [2, 2],
+        run: ([glue, items]) => {
+            requireType('join', 1, glue, 'string');
+            requireType('join', 2, items, 'array');
+            return items.map((item: any) => typeof item === 'string' ? item : JSON.stringify(item)).join(glue);
+        }
+    },
+    keys: { arity: [1, 1], run: ([obj]) => { requireType('keys', 1, obj, 'object'); return Object.keys(obj); } },
+    length: {
+        arity: [1, 1],
+        run: ([subject]) => {
+            requireType('length', 1, subject, 'string', 'array', 'object');
+            return isObject(subject) ? Object.keys(subject).length : subject.length;
+        }
+    },
+    map: {
+        arity: [2, 2],
+        run: ([ref, items], call) => {
+            const expref = requireExpref('map', 1, ref);
+            requireType('map', 2, items, 'array');
+            return items.map((item: any) => call(expref, item) ?? null);
+        }
+    },
+    max: {
+        arity: [1, 1],
+        run: ([items]) => {
+            requireType('max', 1, items, 'array');
+            requireSortable('max', items);
+            return items.length ? items.reduce((a: any, b: any) => (b > a ? b : a)) : null;
+        }
+    },
+    max_by: {
+        arity: [2, 2],
+        run: ([items, ref], call) => {
+            requireType('max_by', 1, items, 'array');
+            const sorted = sortByKey('max_by', items, requireExpref('max_by', 2, ref), call);
+            return sorted.length ? sorted[sorted.length - 1] : null;
+        }
+    },
+    merge: {
+        arity: [1, Infinity],
+        run: (objects) => {
+            objects.forEach((obj, index) => requireType('merge', index + 1, obj, 'object'));
+            return Object.assign({}, ...objects);
+        }
+    },
+    min: {
+        arity: [1, 1],
+        run: ([items]) => {
+            requireType('min', 1, items, 'array');
+            requireSortable('min', items);
+            return items.length ? items.reduce((a: any, b: any) => (b < a ? b : a)) : null;
+        }
+    },
+    min_by: {
+        arity: [2, 2],
+        run: ([items, ref], call) => {
+            requireType('min_by', 1, items, 'array');
+            const sorted = sortByKey('min_by', items, requireExpref('min_by', 2, ref), call);
+            return sorted.length ? sorted[0] : null;
+        }
+    },
+    not_null: {
+        arity: [1, Infinity],
+        run: (values) => values.find(value => value !== null && value !== undefined) ?? null
+    },
+    reverse: {
+        arity: [1, 1],
+        run: ([subject]) => {
+            requireType('reverse', 1, subject, 'array', 'string');
+            return typeof subject === 'string' ? subject.split('').reverse().join('') : [...subject].reverse();
+        }
+    },
+    sort: {
+        arity: [1, 1],
+        run: ([items]) => {
+            requireType('sort', 1, items, 'array');
+            requireSortable('sort', items);
+            return [...items].sort(compareSortable);
+        }
+    },
+    sort_by: {
+        arity: [2, 2],
+        run: ([items, ref], call) => {
+            requireType('sort_by', 1, items, 'array');
+            return sortByKey('sort_by', items, requireExpref('sort_by', 2, ref), call);
+        }
+    },
+    starts_with: {
+        arity: [2, 2],
+        run: ([subject, prefix]) => {
+            requireType('starts_with', 1, subject, 'string');
+            requireType('starts_with', 2, prefix, 'string');
+            return subject.startsWith(prefix);
+        }
+    },
+    sum: {
+        arity: [1, 1],
+        run: ([items]) => {
+            requireType('sum', 1, items, 'array');
+            items.forEach((item: any) => requireType('sum', 1, item, 'number'));
+            return items.reduce((sum: number, n: number) => sum + n, 0);
+        }
+    },
+    to_array: { arity: [1, 1], run: ([value]) => Array.isArray(value) ? value : [value] },
+    to_number: {
+        arity: [1, 1],
+        run: ([value]) => {
+            if (typeof value === 'number') return value;
+            if (typeof value !== 'string' || value.trim() === '') return null;
+            const parsed = Number(value);
+            return Number.isFinite(parsed) ? parsed : null;
+        }
+    },
+    to_string: { arity: [1, 1], run: ([value]) => typeof value === 'string' ? value : JSON.stringify(value ?? null) },
+    type: { arity: [1, 1], run: ([value]) => typeName(value) },
+    values: { arity: [1, 1], run: ([obj]) => { requireType('values', 1, obj, 'object'); return Object.values(obj); } }
+};
+
+class PathEvaluator {
+    constructor(private expression: string) {}
+
+    /**
+     * In strict mode (the plain segment chain of the path) a missing property or index
+     * is an error naming the segment; inside projections, filters and functions it is null.
+     */
+    evaluate(node: PathNode, value: any, strict: boolean): any {
+        switch (node.type) {
+            case 'identity':
+            case 'current':
+                return value;
+            case 'literal':
+                return node.value;
+            case 'field':
+                return this.field(node, value, strict);
+            case 'index':
+                return this.index(node, value, strict);
+            case 'slice':
+                if (!Array.isArray(value) && typeof value !== 'string') {
+                    return this.fail(node, strict, `cannot slice ${typeName(value)}`);
+                }
+                return sliceValues(value, node.from, node.to, node.step);
+            case 'subexpression':
+            case 'pipe':
+                return this.evaluate(node.right, this.evaluate(node.left, value, strict), strict);
+            case 'projection': {
+                const base = this.evaluate(node.left, value, strict);
+                if (!Array.isArray(base)) {
+                    return this.fail(node.left, strict, `expected an array to project over, got ${typeName(base)}`);
+                }
+                return this.collect(base, node.right);
+            }
+            case 'valueProjection': {
+                const base = this.evaluate(node.left, value, strict);
+                if (!isObject(base)) {
+                    return this.fail(node, strict, `".*" expects an object, got ${typeName(base)}`);
+                }
+                return this.collect(Object.values(base), node.right);
+            }
+            case 'filterProjection': {
+                const base = this.evaluate(node.left, value, strict);
+                if (!Array.isArray(base)) {
+                    return this.fail(node, strict, `filters apply to arrays, got ${typeName(base)}`);
+                }
+                const matches = base.filter(item => isTruthy(this.evaluate(node.condition, item, false)));
+                return this.collect(matches, node.right);
+            }
+            case 'flatten': {
+                const base = this.evaluate(node.child, value, strict);
+                if (!Array.isArray(base)) {
+                    return this.fail(node, strict, `"[]" expects an array, got ${typeName(base)}`);
+                }
+                return base.reduce((items: any[], item) => items.concat(Array.isArray(item) ? item : [item]), []);
+            }
+            case 'or': {
+                const left = this.evaluate(node.left, value, false);
+                return isTruthy(left) ? left : this.evaluate(node.right, value, false);
+            }
+            case 'and': {
+                const left = this.evaluate(node.left, value, false);
+                return isTruthy(left) ? this.evaluate(node.right, value, false) : left;
+            }
+            case 'not':
+                return !isTruthy(this.evaluate(node.child, value, false));
+            case 'comparator':
+                return this.compare(node.op, this.evaluate(node.left, value, false), this.evaluate(node.right, value, false));
+            case 'multiList':
+                if (value === null || value === undefined) return null;
+                return node.children.map(child => this.evaluate(child, value, false) ?? null);
+            case 'multiHash': {
+                if (value === null || value === undefined) return null;
+                const result: Record<string, any> = {};
+                for (const entry of node.entries) {
+                    result[entry.key] = this.evaluate(entry.value, value, false) ?? null;
+                }
+                return result;
+            }
+            case 'expref':
+                return { expref: node.child } as ExpressionReference;
+            case 'function':
+                return this.callFunction(node, value);
+        }
+    }
+
+    private collect(items: any[], right: PathNode): any[] {
+        const results: any[] = [];
+        for (const item of items) {
+            const projected = this.evaluate(right, item, false);
+            if (projected !== null && projected !== undefined) {
+                results.push(projected);
+            }
+        }
+        return results;
+    }
+
+    private field(node: Extract<PathNode, { type: 'field' }>, value: any, strict: boolean): any {
+        if (isObject(value)) {
+            if (node.name in value) {
+                return value[node.name];
+            }
+            return this.fail(node, strict, 'property not found');
+        }
+        if (Array.isArray(value)) {
+            return this.fail(node, strict, `expected an object, got array (use [*].${node.name} to read it from every item)`);
+        }
+        return this.fail(node, strict, `cannot read a property of ${typeName(value)}`);
+    }
+
+    private index(node: Extract<PathNode, { type: 'index' }>, value: any, strict: boolean): any {
+        if (Array.isArray(value)) {
+            const index = node.index < 0 ? value.length + node.index : node.index;
+            if (index < 0 || index >= value.length) {
+                return this.fail(node, strict, `index ${node.index} is out of range (length ${value.length})`);
+            }
+            return value[index];
+        }
+        // Legacy dot paths also used numeric segments as object keys
+        if (node.dotted && isObject(value) && String(node.index) in value) {
+            return value[String(node.index)];
+        }
+        return this.fail(node, strict, `expected an array, got ${typeName(value)}`);
+    }
+
+    private compare(op: TokenType, left: any, right: any): boolean | null {
+        if (op === 'eq') return deepEqual(left, right);
+        if (op === 'ne') return !deepEqual(left, right);
+
+        const comparable = (typeof left === 'number' && typeof right === 'number')
+            || (typeof left === 'string' && typeof right === 'string');
+        if (!comparable) {
+            return null;
+        }
+        switch (op) {
+            case 'lt': return left < right;
+            case 'lte': return left <= right;
+            case 'gt': return left > right;
+            case 'gte': return left >= right;
+            default: return null;
+        }
+    }
+
+    private callFunction(node: Extract<PathNode, { type: 'function' }>, value: any): any {
+        const fn = FUNCTIONS[node.name];
+        if (!fn) {
+            throw this.segmentError(node, `unknown function ${node.name}()`);
+        }
+
+        const [min, max] = fn.arity;
+        if (node.args.length < min || node.args.length > max) {
+            const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+            throw this.segmentError(node, `${node.name}() expects ${expected} argument${min === 1 && max === 1 ? '' : 's'}, got ${node.args.length}`);
+        }
+
+        const args = node.args.map(arg => this.evaluate(arg, value, false) ?? null);
+        try {
+            return fn.run(args, (ref, item) => this.evaluate(ref.expref, item, false));
+        } catch (error) {
+            if (error instanceof PathEvaluationError) {
+                throw this.segmentError(node, error.message);
+            }
+            throw error;
+        }
+    }
+
+    private fail(node: PathNode, strict: boolean, reason: string): null {
+        if (strict) {
+            throw this.segmentError(node, reason);
+        }
+        return null;
+    }
+
+    private segmentError(node: PathNode, reason: string): Error {
+        const segment = this.expression.slice(node.start, node.end).trim() || this.expression;
+        return new Error(`Path "${this.expression}" failed at "${segment}": ${reason}`);
+    }
+}
+
+// Characters that only appear in path expressions, never in a plain dotted path
+const EXPRESSION_CHARACTERS = /[[\]()|*?{}'"`&!=<>,]/;
+
+/**
+ * The dotted path syntax used before path expressions: split on `.`, numeric segments index
+ * arrays, and anything else is a property name, e.g. `@type` or `2024-01`
+ */
+function compileLegacyPath(expression: string): PathNode | null {
+    if (EXPRESSION_CHARACTERS.test(expression)) {
+        return null;
+    }
+
+    let node: PathNode | null = null;
+    let offset = 0;
+    for (const rawSegment of expression.split('.')) {
+        const start = offset + rawSegment.length - rawSegment.trimStart().length;
+        const segment = rawSegment.trim();
+        offset += rawSegment.length + 1;
+        if (!segment) {
+            continue;
+        }
+
+        const end = start + segment.length;
+        const step: PathNode = /^\d+$/.test(segment)
+            ? { type: 'index', index: Number(segment), dotted: true, start, end }
+            : { type: 'field', name: segment, start, end };
+        node = node ? { type: 'subexpression', left: node, right: step, start: node.start, end } : step;
+    }
+    return node;
+}
+
+/**
+ * Parse a path expression, reporting the position of the first syntax error.
+ * Plain dotted paths the expression syntax cannot read fall back to the legacy resolution.
+ */
+function compilePath(expression: string, kind = 'path'): PathNode {
+    try {
+        return new PathParser(expression).parse();
+    } catch (error) {
+        const legacy = compileLegacyPath(expression);
+        if (legacy) {
+            return legacy;
+        }
+        throw new Error(`Invalid ${kind} "${expression}": ${error.message}`);
+    }
+}
+
+/**
+ * Apply a path expression to data. When the path does not match, it is retried
+ * against a GraphQL `{ data: ... }` envelope.
+ */
+export function selectPath(data: any, path?: string): any {
+    if (!path || path.trim() === '') {
+        return data;
+    }
+
+    const expression = path.trim();
+    const ast = compilePath(expression);
+    const evaluator = new PathEvaluator(expression);
+
+    try {
+        return evaluator.evaluate(ast, data, true) ?? null;
+    } catch (error) {
+        if (isObject(data) && isObject(data.data)) {
+            try {
+                return evaluator.evaluate(ast, data.data, true) ?? null;
+            } catch {
+                // Report the failure against the original data
+            }
+        }
+        throw error;
+    }
+}
+
+/**
+ * Compile an expression evaluated relative to each item, e.g. a filter condition or sort key.
+ * Missing fields evaluate to null instead of failing.
+ */
+export function compileExpression(expression: string): (value: any) => any {
+    const source = expression.trim();
+    const ast = compilePath(source, 'expression');
+    const evaluator = new PathEvaluator(source);
+    return value => evaluator.evaluate(ast, value, false) ?? null;
+}
+
+/**
+ * Compile a filter condition such as `status == 'open' && count > 5`
+ */
+export function compileFilter(expression: string): (value: any) => boolean {
+    const evaluate = compileExpression(expression);
+    return value => isTruthy(evaluate(value));
+}
+
+/**
+ * Check a path expression for syntax errors without evaluating it
+ */
+export function validatePath(path: string): void {
+    if (path.trim()) {
+        compilePath(path.trim());
+    }
+}
@@ -1,41 +1,164 @@
-import { DataFetcherSettings } from './settings';
-import { requestUrl, RequestUrlParam } from 'obsidian';
+import { DataFetcherSettings, EndpointAuthConfig, EndpointConfig } from './settings';
+import { requestUrl, RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import { QueryContext, interpolateTemplate, interpolateValue } from './templateVariables';
+import { SecretResolver, redactSecretText, redactSecrets, resolveSecretReferences } from './secretStore';
+import { OAuthTokenManager, isOAuth2Enabled } from './oauth';
+import { PaginationConfig, fetchRelayPages, fetchRestPages, findHeader, parsePaginationConfig } from './pagination';
+import { parseDuration } from './durations';
+import { CachePolicy, parseCachePolicy } from './cachePolicy';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, buildRetryPolicy, parseRetryAfter, retryDelayMs, sleep, withTimeout } from './retryPolicy';
+import { RateLimit, RequestScheduler, parseRateLimit } from './requestScheduler';
+import { validatePath } from './pathQuery';
+import { TransformStep, parseTransformSteps } from './transforms';
+import { ColumnFormat, parseColumnFormats } from './columnFormats';
+import { validateTemplate } from './markdownTemplate';
+import { ChartConfig, parseChartConfig } from './chart';
+import { PropertyMapping, parsePropertyMappings } from './frontmatterProperties';
+import { SyncConfig, parseSyncConfig } from './noteSync';
+import { WatchRule, parseWatchRules } from './watchRules';
+import { optionMapping, optionText, parseAliasBlock } from './aliasBlock';
 
 export interface QueryParams {
     endpoint: string;
     type: 'rest' | 'graphql' | 'grpc' | 'rpc';
-    output?: 'render' | 'frontmatter';
+    output?: OutputTarget;
     property?: string;
-    format?: 'json' | 'table';
+    properties?: PropertyMapping[]; // several frontmatter properties written in one update
+    file?: string; // target note for `output: note`, may contain template variables
+    id?: string; // stable block id, used for managed sections in other notes
+    sync?: SyncConfig; // one note per row for `output: sync`
+    format?: OutputFormat;
+    template?: string; // markdown template for `format: template`
+    chart?: ChartConfig; // chart type and fields for `format: chart`
     path?: string;
+    transform?: TransformStep[];
+    columns?: Record<string, ColumnFormat>; // display types for table columns
     url?: string;
     method?: string;
     headers?: Record<string, string>;
     body?: any;
     query?: string;
     variables?: Record<string, any>;
+    auth?: EndpointAuthConfig;
+    paginate?: PaginationConfig;
+    refresh?: number; // auto-refresh interval in ms
+    history?: number; // number of past results kept for the History view
+    watch?: WatchRule[]; // change and threshold rules checked on every fetch
+    cache?: CachePolicy;
+    retry?: RetryPolicy;
+    rateLimit?: RateLimit; // per-alias limit, shared by all blocks using the alias
 }
 
 export interface QueryResult {
     data: any;
     timestamp: number;
     error?: string;
+    stale?: boolean; // expired entry served while a fresh result is fetched (not persisted)
+    fallbackError?: string; // error of the failed fetch this cached result stands in for (not persisted)
 }
 
-function parseOutputFormat(value: string): 'json' | 'table' {
-    const normalized = value.trim().toLowerCase();
-    if (normalized === 'json' || normalized === 'table') {
+export interface ExecuteOptions {
+    secrets?: SecretResolver;
+    tokens?: OAuthTokenManager;
+    scheduler?: RequestScheduler;
+    dedupeKey?: string; // identical queries running under the same key share one execution
+}
+
+interface RequestContext {
+    options: ExecuteOptions;
+    secretValues: string[];
+}
+
+export type OutputFormat = 'json' | 'table' | 'template' | 'chart' | 'tree';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['json', 'table', 'template', 'chart', 'tree'];
+
+function parseOutputFormat(value: string): OutputFormat {
+    const normalized = value.trim().toLowerCase() as OutputFormat;
+    if (OUTPUT_FORMATS.includes(normalized)) {
         return normalized;
     }
-    throw new Error(`Unsupported format "${value}". Use "json" or "table"`);
+    throw new Error(`Unsupported format "${value}". Use ${OUTPUT_FORMATS.map(format => `"${format}"`).join(', ')}`);
+}
+
+/**
+ * A `template` implies `format: template`; `format: template` needs a template
+ */
+function resolveTemplateFormat(params: QueryParams): void {
+    if (params.template !== undefined) {
+        validateTemplate(params.template);
+        params.format = params.format || 'template';
+    }
+    if (params.format === 'template' && !params.template) {
+        throw new Error('`format: template` requires a `template`');
+    }
 }
 
-function parseOutputTarget(value: string): 'render' | 'frontmatter' {
-    const normalized = value.trim().toLowerCase();
-    if (normalized === 'render' || normalized === 'frontmatter') {
+/**
+ * `chart`, `x` or `y` imply `format: chart`; the options are only read for chart output
+ */
+function resolveChartFormat(params: QueryParams, options: { chart?: any; x?: any; y?: any }): void {
+    if (!params.format && (options.chart !== undefined || options.x !== undefined || options.y !== undefined)) {
+        params.format = 'chart';
+    }
+    if (params.format === 'chart') {
+        params.chart = parseChartConfig(options);
+    }
+}
+
+export type OutputTarget = 'render' | 'frontmatter' | 'note' | 'sync';
+
+const OUTPUT_TARGETS: OutputTarget[] = ['render', 'frontmatter', 'note', 'sync'];
+
+function parseOutputTarget(value: string): OutputTarget {
+    const normalized = value.trim().toLowerCase() as OutputTarget;
+    if (OUTPUT_TARGETS.includes(normalized)) {
         return normalized;
     }
-    throw new Error(`Unsupported output "${value}". Use "render" or "frontmatter"`);
+    throw new Error(`Unsupported output "${value}". Use ${OUTPUT_TARGETS.map(target => `"${target}"`).join(', ')}`);
+}
+
+type SyncOptions = { folder?: string; filename?: string; key?: string; archive?: string };
+const SYNC_OPTIONS = ['folder', 'filename', 'key', 'archive'];
+
+/**
+ * `properties` implies `output: frontmatter`; `output: note` needs a `file` and an `id`;
+ * `output: sync` reads its folder, filename, key and archive options
+ */
+function resolveOutputTarget(params: QueryParams, syncOptions: SyncOptions): void {
+    if (params.properties && !params.output) {
+        params.output = 'frontmatter';
+    }
+    if (params.output === 'note' && !params.file) {
+        throw new Error('`output: note` requires a `file`, e.g. file: Reports/{{date}}.md');
+    }
+    if (params.output === 'note' && !params.id) {
+        // A derived id would change with the request and leave old sections behind
+        throw new Error('`output: note` requires an `id` that names its section in the target note');
+    }
+    if (params.output === 'sync') {
+        params.sync = parseSyncConfig(syncOptions);
+    }
+}
+
+const MIN_REFRESH_INTERVAL_MS = 10 * 1000;
+
+function parseRefreshInterval(value: string): number {
+    const interval = parseDuration(value);
+    if (interval < MIN_REFRESH_INTERVAL_MS) {
+        throw new Error(`Refresh interval "${value}" is too short. Use at least 10s`);
+    }
+    return interval;
+}
+
+const MAX_HISTORY_SNAPSHOTS = 100;
+
+function parseHistoryLimit(value: string): number {
+    const limit = Number(value.trim());
+    if (!Number.isInteger(limit) || limit < 2 || limit > MAX_HISTORY_SNAPSHOTS) {
+        throw new Error(`History must be a whole number from 2 to ${MAX_HISTORY_SNAPSHOTS}, got "${value}"`);
+    }
+    return limit;
 }
 
 function parseAliasReferenceLine(aliasLine: string): { alias: string; inlineVariables?: Record<string, any> } {
@@ -69,10 +192,108 @@ function parseAliasReferenceLine(aliasLine: string): { alias: string; inlineVari
     }
 }
 
+function findEndpoint(settings: DataFetcherSettings, alias: string): EndpointConfig {
+    const endpoint = settings.endpoints.find(e => e.alias === alias);
+    if (!endpoint) {
+        throw new Error(`Endpoint alias "${alias}" not found in settings`);
+    }
+    return endpoint;
+}
+
+/**
+ * Request settings an alias contributes to a block: URL, method, headers, auth, cache, retry and rate limit
+ */
+function aliasQueryParams(endpoint: EndpointConfig): QueryParams {
+    const queryParams: QueryParams = {
+        endpoint: endpoint.alias,
+        type: endpoint.type,
+        url: endpoint.url,
+        method: endpoint.method,
+        headers: { ...endpoint.headers }
+    };
+
+    if (isOAuth2Enabled(endpoint.auth)) {
+        queryParams.auth = { ...endpoint.auth };
+    }
+
+    if (endpoint.cache) {
+        queryParams.cache = parseCachePolicy(endpoint.cache);
+    }
+
+    queryParams.retry = buildRetryPolicy({
+        timeout: endpoint.timeout,
+        retries: endpoint.retries,
+        retryBackoff: endpoint.retryBackoff,
+        retryStatuses: endpoint.retryStatuses
+    });
+
+    if (endpoint.rateLimit) {
+        queryParams.rateLimit = parseRateLimit(endpoint.rateLimit);
+    }
+
+    return queryParams;
+}
+
+/**
+ * Alias named by `"extends"` or an `"endpoint": "@alias"` value in a direct JSON query
+ */
+function readExtendedAlias(queryObj: Record<string, any>): string | null {
+    const reference = queryObj.extends !== undefined
+        ? String(queryObj.extends).trim()
+        : typeof queryObj.endpoint === 'string' && queryObj.endpoint.trim().startsWith('@') ? queryObj.endpoint.trim() : '';
+    delete queryObj.extends;
+    if (!reference) {
+        return null;
+    }
+
+    delete queryObj.endpoint;
+    const alias = reference.replace(/^@/, '');
+    if (!/^[A-Za-z0-9._-]+$/.test(alias)) {
+        throw new Error(`Invalid endpoint alias reference: "${reference}"`);
+    }
+    return alias;
+}
+
+/**
+ * Fill note-specific placeholders into the request parts of a parsed query
+ */
+function applyQueryContext(params: QueryParams, context?: QueryContext): QueryParams {
+    if (!context) {
+        return params;
+    }
+
+    const interpolated: QueryParams = { ...params };
+
+    if (params.url) {
+        // Values are encoded so titles like `C# & .NET` stay a single path segment or query value
+        interpolated.url = interpolateTemplate(params.url, context, encodeURIComponent);
+    }
+    if (params.headers) {
+        interpolated.headers = {};
+        for (const [name, value] of Object.entries(params.headers)) {
+            interpolated.headers[name] = interpolateTemplate(String(value), context);
+        }
+    }
+    if (params.body !== undefined) {
+        interpolated.body = interpolateValue(params.body, context);
+    }
+    if (params.query) {
+        interpolated.query = interpolateTemplate(params.query, context);
+    }
+    if (params.variables) {
+        interpolated.variables = interpolateValue(params.variables, context);
+    }
+    if (params.file) {
+        interpolated.file = interpolateTemplate(params.file, context);
+    }
+
+    return interpolated;
+}
+
 /**
  * Parse the data query from the codeblock
  */
-export function parseDataQuery(source: string, settings: DataFetcherSettings): QueryParams {
+export function parseDataQuery(source: string, settings: DataFetcherSettings, context?: QueryContext): QueryParams {
     try {
         const trimmedSource = source.trim();
         // Check if using reference or direct definition
@@ -82,90 +303,111 @@ export function parseDataQuery(source: string, settings: DataFetcherSettings): Q
             const aliasLine = lines[0].trim();
             const { alias, inlineVariables } = parseAliasReferenceLine(aliasLine);
             
-            // Find the endpoint by alias
-            const endpoint = settings.endpoints.find(e => e.alias === alias);
-            if (!endpoint) {
-                throw new Error(`Endpoint alias "${alias}" not found in settings`);
-            }
+            const endpoint = findEndpoint(settings, alias);
             
             // Parse additional parameters if any
-            const queryParams: QueryParams = {
-                endpoint: alias,
-                type: endpoint.type,
-                url: endpoint.url,
-                method: endpoint.method,
-                headers: { ...endpoint.headers }
-            };
+            const queryParams = aliasQueryParams(endpoint);
 
             if (inlineVariables) {
                 queryParams.variables = inlineVariables;
             }
+
+            const chartOptions: { chart?: string; x?: string; y?: string } = {};
+            const syncOptions: SyncOptions = {};
             
-            // Process remaining lines as additional parameters
-            for (let i = 1; i < lines.length; i++) {
-                const line = lines[i].trim();
-                
-                // Skip empty lines
-                if (!line) continue;
-                
-                // Check if it's a parameter assignment
-                if (line.includes(':')) {
-                    const [key, ...valueParts] = line.split(':');
-                    let value = valueParts.join(':').trim();
-                    
-                    // Handle multi-line values (especially for GraphQL queries)
-                    if (key.trim() === 'query' && i + 1 < lines.length) {
-                        // Collect all lines until we hit a line that looks like a new parameter
-                        for (let j = i + 1; j < lines.length; j++) {
-                            const nextLine = lines[j].trim();
-                            if (nextLine && !nextLine.includes(':')) {
-                                value += '\n' + nextLine;
-                                i = j; // Update the outer loop counter
-                            } else if (nextLine.includes(':')) {
-                                break; // Stop when we hit a new parameter
-                            }
-                        }
-                    }
-                    
-                    if (key.trim() === 'body') {
+            // Remaining lines are YAML options
+            const options = parseAliasBlock(lines.slice(1), 2);
+            for (const [key, value] of Object.entries(options)) {
+                if (key === 'body') {
+                    if (typeof value === 'string') {
                         try {
                             queryParams.body = JSON.parse(value);
                         } catch {
                             queryParams.body = value;
                         }
-                    } else if (key.trim() === 'query') {
-                        queryParams.query = value;
-                    } else if (key.trim() === 'variables') {
+                    } else {
+                        queryParams.body = value;
+                    }
+                } else if (key === 'query') {
+                    queryParams.query = optionText(value, key);
+                } else if (key === 'variables') {
+                    if (typeof value === 'string') {
                         try {
                             queryParams.variables = JSON.parse(value);
                         } catch {
                             throw new Error('Variables must be valid JSON');
                         }
-                    } else if (key.trim() === 'path') {
-                        queryParams.path = value;
-                    } else if (key.trim() === 'format') {
-                        queryParams.format = parseOutputFormat(value);
-                    } else if (key.trim() === 'output') {
-                        queryParams.output = parseOutputTarget(value);
-                    } else if (key.trim() === 'property') {
-                        queryParams.property = value;
+                    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+                        queryParams.variables = value;
+                    } else {
+                        throw new Error('Variables must be an object');
+                    }
+                } else if (key === 'headers') {
+                    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+                        throw new Error('Headers must be an object of header names and values');
                     }
+                    // Block headers are added to the alias headers and win on conflicts
+                    for (const [name, headerValue] of Object.entries(value)) {
+                        (queryParams.headers as Record<string, string>)[name] = optionText(headerValue, `headers.${name}`);
+                    }
+                } else if (key === 'path') {
+                    validatePath(optionText(value, key));
+                    queryParams.path = optionText(value, key);
+                } else if (key === 'transform') {
+                    queryParams.transform = parseTransformSteps(value ?? '');
+                } else if (key === 'columns') {
+                    queryParams.columns = parseColumnFormats(optionMapping(value));
+                } else if (key === 'template') {
+                    queryParams.template = typeof value === 'string' ? value.replace(/\n+$/, '') : optionText(value, key);
+                } else if (key === 'chart' || key === 'x' || key === 'y') {
+                    chartOptions[key] = optionText(value, key);
+                } else if (SYNC_OPTIONS.includes(key)) {
+                    syncOptions[key as keyof SyncOptions] = optionText(value, key);
+                } else if (key === 'format') {
+                    queryParams.format = parseOutputFormat(optionText(value, key));
+                } else if (key === 'output') {
+                    queryParams.output = parseOutputTarget(optionText(value, key));
+                } else if (key === 'property') {
+                    queryParams.property = optionText(value, key);
+                } else if (key === 'properties') {
+                    queryParams.properties = parsePropertyMappings(optionMapping(value));
+                } else if (key === 'file') {
+                    queryParams.file = optionText(value, key);
+                } else if (key === 'id') {
+                    queryParams.id = optionText(value, key);
+                } else if (key === 'paginate') {
+                    queryParams.paginate = parsePaginationConfig(value && typeof value === 'object' ? value : optionText(value, key));
+                } else if (key === 'refresh') {
+                    queryParams.refresh = parseRefreshInterval(optionText(value, key));
+                } else if (key === 'history') {
+                    queryParams.history = parseHistoryLimit(optionText(value, key));
+                } else if (key === 'watch') {
+                    queryParams.watch = parseWatchRules(value ?? '');
+                } else if (key === 'cache') {
+                    queryParams.cache = parseCachePolicy(optionText(value, key));
                 }
             }
             
-            return queryParams;
+            resolveTemplateFormat(queryParams);
+            resolveChartFormat(queryParams, chartOptions);
+            resolveOutputTarget(queryParams, syncOptions);
+            return applyQueryContext(queryParams, context);
         } else {
             // Direct definition
             try {
                 const queryObj = JSON.parse(source);
+
+                // `"extends": "@alias"` starts from the alias's URL, headers, auth and limits
+                const extendedAlias = readExtendedAlias(queryObj);
+                const endpoint = extendedAlias ? findEndpoint(settings, extendedAlias) : null;
                 
                 // Validate required fields
-                if (!queryObj.type) {
+                if (!queryObj.type && !endpoint) {
                     throw new Error('Query type is required');
                 }
                 
-                if (!queryObj.url) {
-                    throw new Error('URL is required');
+                if (!queryObj.url && !endpoint) {
+                    throw new Error('URL is required unless the query extends an alias, e.g. "extends": "@my-api"');
                 }
 
                 if (queryObj.format !== undefined) {
@@ -175,11 +417,85 @@ export function parseDataQuery(source: string, settings: DataFetcherSettings): Q
                 if (queryObj.output !== undefined) {
                     queryObj.output = parseOutputTarget(String(queryObj.output));
                 }
+                if (queryObj.properties !== undefined) {
+                    queryObj.properties = parsePropertyMappings(queryObj.properties);
+                }
+                const syncOptions: SyncOptions = {};
+                for (const option of SYNC_OPTIONS) {
+                    syncOptions[option as keyof SyncOptions] = queryObj[option];
+                    delete queryObj[option];
+                }
+                resolveOutputTarget(queryObj, syncOptions);
+
+                if (queryObj.path !== undefined) {
+                    validatePath(String(queryObj.path));
+                }
+
+                if (queryObj.transform !== undefined) {
+                    queryObj.transform = parseTransformSteps(queryObj.transform);
+                }
+
+                if (queryObj.columns !== undefined) {
+                    queryObj.columns = parseColumnFormats(queryObj.columns);
+                }
+
+                if (Array.isArray(queryObj.template)) {
+                    queryObj.template = queryObj.template.join('\n');
+                }
+                resolveTemplateFormat(queryObj);
+
+                const { chart, x, y } = queryObj;
+                delete queryObj.chart;
+                delete queryObj.x;
+                delete queryObj.y;
+                resolveChartFormat(queryObj, { chart, x, y });
+
+                if (queryObj.paginate !== undefined) {
+                    queryObj.paginate = parsePaginationConfig(queryObj.paginate);
+                }
+
+                if (queryObj.refresh !== undefined) {
+                    queryObj.refresh = parseRefreshInterval(String(queryObj.refresh));
+                }
+
+                if (queryObj.history !== undefined) {
+                    queryObj.history = parseHistoryLimit(String(queryObj.history));
+                }
+
+                if (queryObj.watch !== undefined) {
+                    queryObj.watch = parseWatchRules(queryObj.watch);
+                }
+
+                if (queryObj.cache !== undefined) {
+                    queryObj.cache = parseCachePolicy(String(queryObj.cache));
+                }
+
+                const { timeout, retries, retryBackoff, retryStatuses } = queryObj;
+                delete queryObj.timeout;
+                delete queryObj.retries;
+                delete queryObj.retryBackoff;
+                delete queryObj.retryStatuses;
+                queryObj.retry = buildRetryPolicy({
+                    timeout: timeout ?? endpoint?.timeout,
+                    retries: retries ?? endpoint?.retries,
+                    retryBackoff: retryBackoff ?? endpoint?.retryBackoff,
+                    retryStatuses: retryStatuses ?? endpoint?.retryStatuses
+                });
+
+                if (endpoint) {
+                    // Block fields override the alias; headers are merged
+                    const aliasParams = aliasQueryParams(endpoint);
+                    return applyQueryContext({
+                        ...aliasParams,
+                        ...queryObj,
+                        headers: { ...aliasParams.headers, ...queryObj.headers }
+                    }, context);
+                }
                 
-                return {
+                return applyQueryContext({
                     endpoint: 'direct',
                     ...queryObj
-                };
+                }, context);
             } catch (error) {
                 throw new Error(`Invalid query format: ${error.message}`);
             }
@@ -189,48 +505,169 @@ export function parseDataQuery(source: string, settings: DataFetcherSettings): Q
     }
 }
 
+/**
+ * Resolve `{{secret:NAME}}` references in the URL and headers.
+ * Only the returned copy carries secret values; the original params (used for
+ * cache keys and stored on rendered blocks) keep the references.
+ */
+function resolveQuerySecrets(params: QueryParams, secrets: SecretResolver | undefined, resolvedValues: string[]): QueryParams {
+    const resolved: QueryParams = { ...params };
+
+    if (params.url) {
+        resolved.url = resolveSecretReferences(params.url, secrets, resolvedValues);
+    }
+    if (params.headers) {
+        resolved.headers = {};
+        for (const [name, value] of Object.entries(params.headers)) {
+            resolved.headers[name] = resolveSecretReferences(String(value), secrets, resolvedValues);
+        }
+    }
+
+    return resolved;
+}
+
 /**
  * Execute the query based on the parsed parameters
  */
-export async function executeQuery(params: QueryParams): Promise<QueryResult> {
+export function executeQuery(params: QueryParams, options: ExecuteOptions = {}): Promise<QueryResult> {
+    if (options.scheduler && options.dedupeKey) {
+        return options.scheduler.dedupe(options.dedupeKey, () => runQuery(params, options));
+    }
+    return runQuery(params, options);
+}
+
+async function runQuery(params: QueryParams, options: ExecuteOptions): Promise<QueryResult> {
+    const secretValues: string[] = [];
+
     try {
+        const resolvedParams = resolveQuerySecrets(params, options.secrets, secretValues);
+        const context: RequestContext = { options, secretValues };
         let data: any;
         
-        switch (params.type) {
+        switch (resolvedParams.type) {
             case 'rest':
-                data = await executeRestQuery(params);
+                data = await executeRestQuery(resolvedParams, context);
                 break;
             case 'graphql':
-                data = await executeGraphQLQuery(params);
+                data = await executeGraphQLQuery(resolvedParams, context);
                 break;
             case 'grpc':
-                data = await executeGrpcQuery(params);
+                data = await executeGrpcQuery(resolvedParams, context);
                 break;
             case 'rpc':
-                data = await executeRpcQuery(params);
+                data = await executeRpcQuery(resolvedParams, context);
                 break;
             default:
-                throw new Error(`Unsupported query type: ${params.type}`);
+                throw new Error(`Unsupported query type: ${resolvedParams.type}`);
         }
         
         return {
-            data,
+            data: redactSecrets(data, secretValues),
             timestamp: Date.now()
         };
     } catch (error) {
-        console.error('Query execution error:', error);
+        const message = redactSecretText(String(error.message), secretValues);
+        console.error('Query execution error:', message);
         return {
             data: null,
             timestamp: Date.now(),
-            error: error.message
+            error: message
         };
     }
 }
 
+/**
+ * Send a single request, attaching an OAuth2 bearer token when the endpoint uses one.
+ * A 401 response triggers exactly one retry with a freshly issued token.
+ */
+async function sendAttempt(params: QueryParams, requestParams: RequestUrlParam, context: RequestContext, timeoutMs: number): Promise<RequestUrlResponse> {
+    const auth = params.auth;
+
+    if (isOAuth2Enabled(auth)) {
+        const tokens = context.options.tokens;
+        if (!tokens) {
+            throw new Error('OAuth2 authentication is not available');
+        }
+
+        const sendWithToken = async (forceRefresh: boolean): Promise<RequestUrlResponse> => {
+            const accessToken = await tokens.getAccessToken(params.endpoint, auth, context.options.secrets, context.secretValues, forceRefresh);
+            return withTimeout(requestUrl({
+                ...requestParams,
+                headers: {
+                    ...(requestParams.headers || {}),
+                    Authorization: `Bearer ${accessToken}`
+                },
+                throw: false
+            }), timeoutMs);
+        };
+
+        const response = await sendWithToken(false);
+        if (response.status === 401) {
+            return sendWithToken(true);
+        }
+        return response;
+    }
+
+    return withTimeout(requestUrl({ ...requestParams, throw: false }), timeoutMs);
+}
+
+/**
+ * Send a single attempt through the shared scheduler, if any, so concurrency and
+ * rate limits apply to every page and retry
+ */
+function scheduleAttempt(params: QueryParams, requestParams: RequestUrlParam, context: RequestContext, timeoutMs: number): Promise<RequestUrlResponse> {
+    const scheduler = context.options.scheduler;
+    if (!scheduler) {
+        return sendAttempt(params, requestParams, context, timeoutMs);
+    }
+
+    const alias = params.endpoint !== 'direct' ? params.endpoint : undefined;
+    return scheduler.schedule(requestParams.url, alias, params.rateLimit, () =>
+        sendAttempt(params, requestParams, context, timeoutMs));
+}
+
+/**
+ * Send a request with the query's timeout and retry policy.
+ * Network errors, timeouts and retryable status codes are retried with exponential backoff;
+ * `Retry-After` is honored on 429 and 503 responses.
+ */
+async function sendRequest(params: QueryParams, requestParams: RequestUrlParam, context: RequestContext): Promise<RequestUrlResponse> {
+    const policy = params.retry || DEFAULT_RETRY_POLICY;
+    const attemptsSuffix = (attempts: number) => attempts > 1 ? ` (after ${attempts} attempts)` : '';
+
+    for (let attempt = 1; ; attempt++) {
+        let response: RequestUrlResponse;
+
+        try {
+            response = await scheduleAttempt(params, requestParams, context, policy.timeoutMs);
+        } catch (error) {
+            if (attempt <= policy.retries) {
+                await sleep(retryDelayMs(policy, attempt, null));
+                continue;
+            }
+            throw new Error(`${error.message}${attemptsSuffix(attempt)}`);
+        }
+
+        if (response.status < 400) {
+            return response;
+        }
+
+        if (attempt <= policy.retries && policy.retryStatuses.includes(response.status)) {
+            const retryAfterMs = response.status === 429 || response.status === 503
+                ? parseRetryAfter(findHeader(response.headers, 'retry-after'))
+                : null;
+            await sleep(retryDelayMs(policy, attempt, retryAfterMs));
+            continue;
+        }
+
+        throw new Error(`Request failed, status ${response.status}${attemptsSuffix(attempt)}`);
+    }
+}
+
 /**
  * Execute REST API query
  */
-async function executeRestQuery(params: QueryParams): Promise<any> {
+async function executeRestQuery(params: QueryParams, context: RequestContext): Promise<any> {
     if (!params.url) {
         throw new Error('URL is required for REST queries');
     }
@@ -256,22 +693,31 @@ async function executeRestQuery(params: QueryParams): Promise<any> {
         }
     }
     
-    const response = await requestUrl(requestParams);
-    
-    // Parse response based on content type
-    const contentType = response.headers['content-type'];
+    const fetchPage = async (url: string): Promise<{ data: any; headers: Record<string, string> }> => {
+        const response = await sendRequest(params, { ...requestParams, url }, context);
+        
+        // Parse response based on content type
+        const contentType = response.headers['content-type'];
+        const data = contentType && contentType.includes('application/json')
+            ? response.json
+            : response.text;
+        return { data, headers: response.headers };
+    };
     
-    if (contentType && contentType.includes('application/json')) {
-        return response.json;
-    } else {
-        return response.text;
+    if (params.paginate) {
+        if (params.paginate.strategy === 'relay') {
+            throw new Error('Relay pagination is only supported for GraphQL queries');
+        }
+        return fetchRestPages(params.paginate, params.url, fetchPage);
     }
+    
+    return (await fetchPage(params.url)).data;
 }
 
 /**
  * Execute GraphQL query
  */
-async function executeGraphQLQuery(params: QueryParams): Promise<any> {
+async function executeGraphQLQuery(params: QueryParams, context: RequestContext): Promise<any> {
     if (!params.url) {
         throw new Error('URL is required for GraphQL queries');
     }
@@ -280,21 +726,34 @@ async function executeGraphQLQuery(params: QueryParams): Promise<any> {
         throw new Error('Query is required for GraphQL queries');
     }
     
-    const requestParams: RequestUrlParam = {
-        url: params.url,
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            ...(params.headers || {})
-        },
-        body: JSON.stringify({
-            query: params.query,
-            variables: params.variables || {}
-        })
+    const url = params.url;
+    const query = params.query;
+    const fetchPage = async (variables: Record<string, any>): Promise<any> => {
+        const requestParams: RequestUrlParam = {
+            url,
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(params.headers || {})
+            },
+            body: JSON.stringify({
+                query,
+                variables
+            })
+        };
+        
+        const response = await sendRequest(params, requestParams, context);
+        return response.json;
     };
     
-    const response = await requestUrl(requestParams);
-    return response.json;
+    if (params.paginate) {
+        if (params.paginate.strategy !== 'relay') {
+            throw new Error(`GraphQL queries only support "relay" pagination, got "${params.paginate.strategy}"`);
+        }
+        return fetchRelayPages(params.paginate, params.variables || {}, fetchPage);
+    }
+    
+    return fetchPage(params.variables || {});
 }
 
 /**
@@ -302,7 +761,7 @@ async function executeGraphQLQuery(params: QueryParams): Promise<any> {
  * Note: This is a simplified implementation as Obsidian doesn't have direct gRPC support
  * This will use a REST proxy approach for gRPC
  */
-async function executeGrpcQuery(params: QueryParams): Promise<any> {
+async function executeGrpcQuery(params: QueryParams, context: RequestContext): Promise<any> {
     if (!params.url) {
         throw new Error('URL is required for gRPC queries');
     }
@@ -319,14 +778,14 @@ async function executeGrpcQuery(params: QueryParams): Promise<any> {
         body: JSON.stringify(params.body || {})
     };
     
-    const response = await requestUrl(requestParams);
+    const response = await sendRequest(params, requestParams, context);
     return response.json;
 }
 
 /**
  * Execute RPC query
  */
-async function executeRpcQuery(params: QueryParams): Promise<any> {
+async function executeRpcQuery(params: QueryParams, context: RequestContext): Promise<any> {
     if (!params.url) {
         throw new Error('URL is required for RPC queries');
     }
@@ -346,6 +805,6 @@ async function executeRpcQuery(params: QueryParams): Promise<any> {
         })
     };
     
-    const response = await requestUrl(requestParams);
+    const response = await sendRequest(params, requestParams, context);
     return response.json;
 }
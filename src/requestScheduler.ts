@@ -0,0 +1,169 @@
+import { parseDuration } from './durations';
+import { sleep } from './retryPolicy';
+
+export interface RateLimit {
+    requests: number;
+    intervalMs: number;
+}
+
+export const DEFAULT_MAX_CONCURRENT_REQUESTS = 4;
+
+/**
+ * Parse a rate limit such as `10/1m`, `5/s` or `100/1h`
+ */
+export function parseRateLimit(value: string): RateLimit {
+    const match = value.trim().match(/^(\d+)\s*\/\s*(.+)$/);
+    if (!match) {
+        throw new Error(`Invalid rate limit "${value}". Use requests/interval, e.g. 10/1m`);
+    }
+
+    const requests = Number(match[1]);
+    const interval = /^[a-z]+$/i.test(match[2].trim()) ? `1${match[2].trim()}` : match[2];
+    const intervalMs = parseDuration(interval);
+
+    if (requests < 1 || intervalMs <= 0) {
+        throw new Error(`Invalid rate limit "${value}". Use requests/interval, e.g. 10/1m`);
+    }
+
+    return { requests, intervalMs };
+}
+
+/**
+ * Parse `host = 10/1m` lines (also accepts `host: 10/1m`) into a host → limit map
+ */
+export function parseHostRateLimits(text: string): Record<string, string> {
+    const limits: Record<string, string> = {};
+
+    for (const rawLine of text.split('\n')) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) {
+            continue;
+        }
+
+        const match = line.match(/^([^\s=:]+)\s*[=:]\s*(.+)$/);
+        if (!match) {
+            throw new Error(`Invalid host rate limit "${line}". Use host = 10/1m`);
+        }
+
+        parseRateLimit(match[2]);
+        limits[match[1].toLowerCase()] = match[2].trim();
+    }
+
+    return limits;
+}
+
+/**
+ * Shared gate for outgoing requests: caps concurrency, enforces per-host and per-alias
+ * requests-per-interval limits, and lets identical in-flight queries share one call.
+ */
+export class RequestScheduler {
+    private maxConcurrent = DEFAULT_MAX_CONCURRENT_REQUESTS;
+    private hostLimits: Map<string, RateLimit> = new Map();
+    private active = 0;
+    private waiting: Array<() => void> = [];
+    private requestLog: Map<string, number[]> = new Map();
+    private inFlight: Map<string, Promise<any>> = new Map();
+
+    configure(maxConcurrent: number, hostRateLimits: Record<string, string>): void {
+        this.maxConcurrent = maxConcurrent > 0 ? Math.floor(maxConcurrent) : DEFAULT_MAX_CONCURRENT_REQUESTS;
+        this.hostLimits.clear();
+
+        for (const [host, limit] of Object.entries(hostRateLimits || {})) {
+            try {
+                this.hostLimits.set(host.toLowerCase(), parseRateLimit(limit));
+            } catch (error) {
+                console.error(`Ignoring rate limit for ${host}:`, error.message);
+            }
+        }
+
+        // A raised limit may free slots for queued requests
+        while (this.active < this.maxConcurrent && this.waiting.length > 0) {
+            this.active++;
+            (this.waiting.shift() as () => void)();
+        }
+    }
+
+    /**
+     * Share one execution between callers that use the same key while it is running
+     */
+    dedupe<T>(key: string, run: () => Promise<T>): Promise<T> {
+        const existing = this.inFlight.get(key);
+        if (existing) {
+            return existing;
+        }
+
+        const execution = run().finally(() => {
+            this.inFlight.delete(key);
+        });
+        this.inFlight.set(key, execution);
+        return execution;
+    }
+
+    /**
+     * Run a request once rate limits for its host (and alias, if limited) allow it
+     * and a concurrency slot is free
+     */
+    async schedule<T>(url: string, alias: string | undefined, aliasLimit: RateLimit | undefined, run: () => Promise<T>): Promise<T> {
+        const host = this.hostFromUrl(url);
+        const hostLimit = host ? this.hostLimits.get(host) : undefined;
+
+        if (hostLimit) {
+            await this.acquireRate(`host:${host}`, hostLimit);
+        }
+        if (alias && aliasLimit) {
+            await this.acquireRate(`alias:${alias}`, aliasLimit);
+        }
+
+        await this.acquireSlot();
+        try {
+            return await run();
+        } finally {
+            this.releaseSlot();
+        }
+    }
+
+    private hostFromUrl(url: string): string | null {
+        try {
+            return new URL(url).hostname.toLowerCase();
+        } catch {
+            return null;
+        }
+    }
+
+    private async acquireRate(key: string, limit: RateLimit): Promise<void> {
+        for (;;) {
+            const now = Date.now();
+            const recent = (this.requestLog.get(key) || []).filter(time => now - time < limit.intervalMs);
+
+            if (recent.length < limit.requests) {
+                recent.push(now);
+                this.requestLog.set(key, recent);
+                return;
+            }
+
+            this.requestLog.set(key, recent);
+            await sleep(recent[0] + limit.intervalMs - now);
+        }
+    }
+
+    private acquireSlot(): Promise<void> {
+        if (this.active < this.maxConcurrent) {
+            this.active++;
+            return Promise.resolve();
+        }
+
+        return new Promise(resolve => {
+            this.waiting.push(resolve);
+        });
+    }
+
+    private releaseSlot(): void {
+        const next = this.waiting.shift();
+        if (next) {
+            // Hand the slot directly to the next waiting request
+            next();
+            return;
+        }
+        this.active--;
+    }
+}
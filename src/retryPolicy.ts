@@ -0,0 +1,129 @@
+export interface RetryPolicy {
+    timeoutMs: number;
+    retries: number;
+    backoffMs: number;
+    retryStatuses: number[];
+}
+
+export const DEFAULT_RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    timeoutMs: 30 * 1000,
+    retries: 0,
+    backoffMs: 1000,
+    retryStatuses: DEFAULT_RETRY_STATUSES
+};
+
+// Upper bound for a single wait so a large Retry-After cannot stall a note indefinitely
+const MAX_RETRY_DELAY_MS = 2 * 60 * 1000;
+
+export interface RetryOptions {
+    timeout?: number; // seconds
+    retries?: number;
+    retryBackoff?: number; // ms
+    retryStatuses?: number[] | string;
+}
+
+function nonNegativeNumber(name: string, value: any): number {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+        throw new Error(`"${name}" must be a non-negative number`);
+    }
+    return parsed;
+}
+
+/**
+ * Parse a status code list such as `429, 502, 503`
+ */
+export function parseStatusCodes(value: number[] | string): number[] {
+    const items = Array.isArray(value) ? value : String(value).split(/[\s,]+/).filter(Boolean);
+    return items.map(item => {
+        const code = Number(item);
+        if (!Number.isInteger(code) || code < 100 || code > 599) {
+            throw new Error(`Invalid HTTP status code "${item}"`);
+        }
+        return code;
+    });
+}
+
+/**
+ * Build a retry policy from endpoint or query options, falling back to defaults
+ */
+export function buildRetryPolicy(options: RetryOptions): RetryPolicy {
+    const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+
+    if (options.timeout !== undefined) {
+        const seconds = nonNegativeNumber('timeout', options.timeout);
+        policy.timeoutMs = seconds > 0 ? seconds * 1000 : 0;
+    }
+    if (options.retries !== undefined) {
+        policy.retries = Math.floor(nonNegativeNumber('retries', options.retries));
+    }
+    if (options.retryBackoff !== undefined) {
+        policy.backoffMs = nonNegativeNumber('retryBackoff', options.retryBackoff);
+    }
+    if (options.retryStatuses !== undefined) {
+        policy.retryStatuses = parseStatusCodes(options.retryStatuses);
+    }
+
+    return policy;
+}
+
+/**
+ * Read a Retry-After header given either in seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: string | undefined): number | null {
+    if (!value) {
+        return null;
+    }
+
+    const seconds = Number(value.trim());
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    if (!Number.isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+
+    return null;
+}
+
+/**
+ * Exponential backoff delay before the given retry (1-based), unless the server asked for a specific wait
+ */
+export function retryDelayMs(policy: RetryPolicy, retry: number, retryAfterMs: number | null): number {
+    const delay = retryAfterMs !== null
+        ? retryAfterMs
+        : policy.backoffMs * Math.pow(2, retry - 1);
+    return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => window.setTimeout(resolve, ms));
+}
+
+/**
+ * Reject when the promise does not settle in time. The underlying request keeps running,
+ * but its result is ignored.
+ */
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+    if (!timeoutMs) {
+        return promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const timer = window.setTimeout(() => {
+            reject(new Error(`Request timed out after ${Math.round(timeoutMs / 1000)}s`));
+        }, timeoutMs);
+
+        promise.then(value => {
+            window.clearTimeout(timer);
+            resolve(value);
+        }, error => {
+            window.clearTimeout(timer);
+            reject(error);
+        });
+    });
+}
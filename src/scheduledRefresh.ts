@@ -0,0 +1,93 @@
+import { MarkdownRenderChild } from 'obsidian';
+import { formatDuration } from './durations';
+
+const TICK_INTERVAL_MS = 1000;
+
+/**
+ * Re-runs a rendered data-query block on a fixed interval.
+ * Refreshes are skipped while the block is scrolled out of view or the window is hidden,
+ * and run as soon as an overdue block becomes visible again.
+ */
+export class ScheduledRefreshChild extends MarkdownRenderChild {
+    private intervalMs: number;
+    private onRefresh: () => Promise<void>;
+    private onDispose: (child: ScheduledRefreshChild) => void;
+    private nextRunAt = 0;
+    private running = false;
+    private visible = true;
+    private observer: IntersectionObserver | null = null;
+
+    constructor(
+        containerEl: HTMLElement,
+        intervalMs: number,
+        onRefresh: () => Promise<void>,
+        onDispose: (child: ScheduledRefreshChild) => void
+    ) {
+        super(containerEl);
+        this.intervalMs = intervalMs;
+        this.onRefresh = onRefresh;
+        this.onDispose = onDispose;
+    }
+
+    onload(): void {
+        this.nextRunAt = Date.now() + this.intervalMs;
+
+        if (typeof IntersectionObserver !== 'undefined') {
+            this.observer = new IntersectionObserver(entries => {
+                this.visible = entries.some(entry => entry.isIntersecting);
+            });
+            this.observer.observe(this.containerEl);
+        }
+
+        this.registerInterval(window.setInterval(() => {
+            void this.tick();
+        }, TICK_INTERVAL_MS));
+        this.updateCountdown();
+    }
+
+    onunload(): void {
+        this.observer?.disconnect();
+        this.observer = null;
+        this.onDispose(this);
+    }
+
+    private isVisible(): boolean {
+        return this.visible && this.containerEl.isConnected && !document.hidden;
+    }
+
+    private async tick(): Promise<void> {
+        if (!this.running && this.isVisible() && Date.now() >= this.nextRunAt) {
+            this.running = true;
+            try {
+                await this.onRefresh();
+            } catch (error) {
+                console.error('Scheduled refresh failed:', error);
+            } finally {
+                this.running = false;
+                this.nextRunAt = Date.now() + this.intervalMs;
+            }
+        }
+
+        this.updateCountdown();
+    }
+
+    /**
+     * Fill the countdown element rendered in the block header (re-created on every render)
+     */
+    private updateCountdown(): void {
+        const countdownEl = this.containerEl.querySelector('.data-fetcher-countdown');
+        if (!countdownEl) {
+            return;
+        }
+
+        let text: string;
+        if (this.running) {
+            text = 'Refreshing...';
+        } else if (!this.isVisible()) {
+            text = 'Auto-refresh paused';
+        } else {
+            text = `Next refresh in ${formatDuration(this.nextRunAt - Date.now())}`;
+        }
+        countdownEl.textContent = text;
+    }
+}
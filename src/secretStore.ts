@@ -0,0 +1,129 @@
+import { App } from 'obsidian';
+
+const SECRET_STORAGE_KEY = 'data-fetcher-secrets';
+const SECRET_REFERENCE_PATTERN = /\{\{\s*secret:([A-Za-z0-9_.-]+)\s*\}\}/g;
+const REDACTED_VALUE = '[secret]';
+
+export interface SecretResolver {
+    get(name: string): string | undefined;
+}
+
+/**
+ * Named credentials kept in vault-scoped local storage instead of the plugin's data.json,
+ * so they are neither synced nor committed together with the vault.
+ */
+export class SecretStore implements SecretResolver {
+    private app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    private load(): Record<string, string> {
+        const stored = this.app.loadLocalStorage(SECRET_STORAGE_KEY);
+        if (!stored || typeof stored !== 'object' || Array.isArray(stored)) {
+            return {};
+        }
+        return stored as Record<string, string>;
+    }
+
+    private save(secrets: Record<string, string>): void {
+        this.app.saveLocalStorage(SECRET_STORAGE_KEY, Object.keys(secrets).length > 0 ? secrets : null);
+    }
+
+    listNames(): string[] {
+        return Object.keys(this.load()).sort();
+    }
+
+    get(name: string): string | undefined {
+        return this.load()[name];
+    }
+
+    set(name: string, value: string): void {
+        if (!isValidSecretName(name)) {
+            throw new Error(`Invalid secret name "${name}". Use letters, numbers, ".", "_" or "-"`);
+        }
+        const secrets = this.load();
+        secrets[name] = value;
+        this.save(secrets);
+    }
+
+    delete(name: string): void {
+        const secrets = this.load();
+        delete secrets[name];
+        this.save(secrets);
+    }
+}
+
+export function isValidSecretName(name: string): boolean {
+    return /^[A-Za-z0-9_.-]+$/.test(name);
+}
+
+export function containsSecretReference(text: string): boolean {
+    return new RegExp(SECRET_REFERENCE_PATTERN.source).test(text);
+}
+
+/**
+ * Return the secret name when the whole text is a single `{{secret:NAME}}` reference
+ */
+export function parseSecretReference(text: string): string | null {
+    const match = text.trim().match(/^\{\{\s*secret:([A-Za-z0-9_.-]+)\s*\}\}$/);
+    return match ? match[1] : null;
+}
+
+/**
+ * Replace `{{secret:NAME}}` references with stored values.
+ * Every resolved value is appended to `resolvedValues` so callers can redact it later.
+ */
+export function resolveSecretReferences(text: string, resolver: SecretResolver | undefined, resolvedValues: string[]): string {
+    return text.replace(SECRET_REFERENCE_PATTERN, (_match, name: string) => {
+        const value = resolver?.get(name);
+        if (value === undefined) {
+            throw new Error(`Secret "${name}" is not defined. Add it in Data Fetcher settings`);
+        }
+        if (value && !resolvedValues.includes(value)) {
+            resolvedValues.push(value);
+        }
+        return value;
+    });
+}
+
+/**
+ * Remove resolved secret values from a string
+ */
+export function redactSecretText(text: string, secretValues: string[]): string {
+    let redacted = text;
+    for (const secretValue of secretValues) {
+        if (secretValue) {
+            redacted = redacted.split(secretValue).join(REDACTED_VALUE);
+        }
+    }
+    return redacted;
+}
+
+/**
+ * Remove resolved secret values from every string inside a response payload
+ */
+export function redactSecrets(value: any, secretValues: string[]): any {
+    if (secretValues.length === 0) {
+        return value;
+    }
+
+    if (typeof value === 'string') {
+        return redactSecretText(value, secretValues);
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(item => redactSecrets(item, secretValues));
+    }
+
+    if (value && typeof value === 'object') {
+        const redacted: Record<string, any> = {};
+        for (const [key, nested] of Object.entries(value)) {
+            redacted[redactSecretText(key, secretValues)] = redactSecrets(nested, secretValues);
+        }
+        return redacted;
+    }
+
+    return value;
+}
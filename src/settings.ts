@@ -1,3 +1,13 @@
+export interface EndpointAuthConfig {
+    type: 'none' | 'oauth2';
+    grantType: 'client_credentials' | 'refresh_token';
+    tokenUrl: string;
+    clientId: string;
+    clientSecret: string; // may contain {{secret:NAME}} references
+    scopes: string; // space separated
+    refreshToken?: string; // may contain {{secret:NAME}} references
+}
+
 export interface EndpointConfig {
     alias: string;
     url: string;
@@ -6,16 +16,33 @@ export interface EndpointConfig {
     headers: Record<string, string>;
     body?: string;
     query?: string;
+    auth?: EndpointAuthConfig;
+    cache?: string; // default cache policy for blocks using this alias, e.g. "1m", "none", "forever", "7d swr"
+    timeout?: number; // seconds, 0 disables
+    retries?: number;
+    retryBackoff?: number; // base delay in ms, doubled on every retry
+    retryStatuses?: number[];
+    rateLimit?: string; // requests per interval across all blocks using this alias, e.g. "10/1m"
 }
 
 export interface DataFetcherSettings {
     cacheDuration: number; // in minutes
     endpoints: EndpointConfig[];
     showCacheRibbonIcon: boolean;
+    backgroundRefreshHours: number; // 0 disables the vault-wide scheduler
+    refreshOnStartup: boolean;
+    maxConcurrentRequests: number;
+    hostRateLimits: Record<string, string>; // host → "requests/interval", e.g. "api.github.com": "30/1m"
+    watchLogNote: string; // note that `watch` matches are appended to; empty disables the log
 }
 
 export const DEFAULT_SETTINGS: DataFetcherSettings = {
     cacheDuration: 60,
     endpoints: [],
-    showCacheRibbonIcon: false
+    showCacheRibbonIcon: false,
+    backgroundRefreshHours: 0,
+    refreshOnStartup: false,
+    maxConcurrentRequests: 4,
+    hostRateLimits: {},
+    watchLogNote: ''
 }
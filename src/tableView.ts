@@ -0,0 +1,222 @@
+import { Menu } from 'obsidian';
+import { compareValues } from './transforms';
+
+export const TABLE_PAGE_SIZE = 50;
+
+export interface TableViewOptions {
+    /** Fill a body cell for the given column */
+    renderCell: (cellEl: HTMLTableCellElement, header: string, value: any) => void;
+    /** Plain text of a cell as displayed, used by the quick filter */
+    cellText: (header: string, value: any) => string;
+    /** Called with the visible columns and the filtered, sorted rows (all pages) whenever they change */
+    onViewChange: (headers: string[], rows: Record<string, any>[]) => void;
+    pageSize?: number;
+}
+
+/**
+ * Interactive `format: table` view: click a header to sort, filter rows with a quick-filter box,
+ * page through large results and show or hide columns. Only the current page is in the DOM.
+ */
+export class TableView {
+    private headers: string[];
+    private rows: Record<string, any>[];
+    private options: TableViewOptions;
+    private pageSize: number;
+
+    private sortColumn: string | null = null;
+    private sortDescending = false;
+    private filterText = '';
+    private hiddenColumns: Set<string> = new Set();
+    private page = 0;
+    private viewRows: Record<string, any>[] = [];
+
+    private tableEl: HTMLTableElement;
+    private pagerEl: HTMLElement;
+    private countEl: HTMLElement;
+
+    constructor(containerEl: HTMLElement, headers: string[], rows: Record<string, any>[], options: TableViewOptions) {
+        this.headers = headers;
+        this.rows = rows;
+        this.options = options;
+        this.pageSize = options.pageSize || TABLE_PAGE_SIZE;
+
+        const toolbar = containerEl.createDiv({ cls: 'data-fetcher-table-toolbar' });
+        const filterInput = toolbar.createEl('input', {
+            type: 'search',
+            cls: 'data-fetcher-table-filter',
+            attr: { placeholder: 'Filter rows...' }
+        });
+        filterInput.addEventListener('input', () => {
+            this.filterText = filterInput.value.trim().toLowerCase();
+            this.page = 0;
+            this.update();
+        });
+
+        this.countEl = toolbar.createSpan({ cls: 'data-fetcher-table-count' });
+
+        const columnsBtn = toolbar.createEl('button', { text: 'Columns', cls: 'data-fetcher-table-columns' });
+        columnsBtn.addEventListener('click', event => this.showColumnMenu(event));
+
+        this.tableEl = containerEl.createEl('table', { cls: 'data-fetcher-table' });
+        this.pagerEl = containerEl.createDiv({ cls: 'data-fetcher-table-pager' });
+
+        this.update();
+    }
+
+    private visibleHeaders(): string[] {
+        return this.headers.filter(header => !this.hiddenColumns.has(header));
+    }
+
+    private computeViewRows(): Record<string, any>[] {
+        const headers = this.visibleHeaders();
+        let rows = this.rows;
+
+        if (this.filterText) {
+            rows = rows.filter(row => headers.some(header =>
+                this.options.cellText(header, row[header]).toLowerCase().includes(this.filterText)));
+        }
+
+        if (this.sortColumn !== null) {
+            const column = this.sortColumn;
+            const direction = this.sortDescending ? -1 : 1;
+            rows = rows
+                .map((row, index) => ({ row, index }))
+                .sort((a, b) => {
+                    const aValue = a.row[column];
+                    const bValue = b.row[column];
+                    const bothPresent = aValue !== null && aValue !== undefined && bValue !== null && bValue !== undefined;
+                    return (bothPresent ? direction : 1) * compareValues(aValue, bValue) || a.index - b.index;
+                })
+                .map(entry => entry.row);
+        }
+
+        return rows;
+    }
+
+    private update(): void {
+        this.viewRows = this.computeViewRows();
+        const pageCount = Math.max(1, Math.ceil(this.viewRows.length / this.pageSize));
+        this.page = Math.min(this.page, pageCount - 1);
+
+        this.renderTable();
+        this.renderPager(pageCount);
+
+        this.countEl.setText(this.viewRows.length === this.rows.length
+            ? `${this.rows.length} rows`
+            : `${this.viewRows.length} of ${this.rows.length} rows`);
+
+        this.options.onViewChange(this.visibleHeaders(), this.viewRows);
+    }
+
+    private renderTable(): void {
+        const headers = this.visibleHeaders();
+        this.tableEl.empty();
+
+        const headerRow = this.tableEl.createEl('thead').createEl('tr');
+        for (const header of headers) {
+            const th = headerRow.createEl('th', { cls: 'data-fetcher-sortable' });
+            th.createSpan({ text: header });
+
+            if (this.sortColumn === header) {
+                th.createSpan({ text: this.sortDescending ? ' ▼' : ' ▲', cls: 'data-fetcher-sort-indicator' });
+                th.setAttr('aria-sort', this.sortDescending ? 'descending' : 'ascending');
+            }
+
+            th.addEventListener('click', () => this.toggleSort(header));
+        }
+
+        const tbody = this.tableEl.createEl('tbody');
+        const start = this.page * this.pageSize;
+        for (const row of this.viewRows.slice(start, start + this.pageSize)) {
+            const tr = tbody.createEl('tr');
+            for (const header of headers) {
+                this.options.renderCell(tr.createEl('td'), header, row[header]);
+            }
+        }
+
+        if (this.viewRows.length === 0) {
+            const td = tbody.createEl('tr').createEl('td', { text: 'No matching rows', cls: 'data-fetcher-table-empty' });
+            td.colSpan = Math.max(1, headers.length);
+        }
+    }
+
+    private renderPager(pageCount: number): void {
+        this.pagerEl.empty();
+        this.pagerEl.toggle(pageCount > 1);
+        if (pageCount <= 1) {
+            return;
+        }
+
+        const previous = this.pagerEl.createEl('button', { text: 'Previous' });
+        previous.disabled = this.page === 0;
+        previous.addEventListener('click', () => {
+            this.page--;
+            this.update();
+        });
+
+        const first = this.page * this.pageSize + 1;
+        const last = Math.min(this.viewRows.length, first + this.pageSize - 1);
+        this.pagerEl.createSpan({ text: `${first}–${last} · page ${this.page + 1} of ${pageCount}` });
+
+        const next = this.pagerEl.createEl('button', { text: 'Next' });
+        next.disabled = this.page >= pageCount - 1;
+        next.addEventListener('click', () => {
+            this.page++;
+            this.update();
+        });
+    }
+
+    /**
+     * Cycle a column through ascending, descending and unsorted
+     */
+    private toggleSort(header: string): void {
+        if (this.sortColumn !== header) {
+            this.sortColumn = header;
+            this.sortDescending = false;
+        } else if (!this.sortDescending) {
+            this.sortDescending = true;
+        } else {
+            this.sortColumn = null;
+            this.sortDescending = false;
+        }
+        this.update();
+    }
+
+    private showColumnMenu(event: MouseEvent): void {
+        const menu = new Menu();
+
+        for (const header of this.headers) {
+            const visible = !this.hiddenColumns.has(header);
+            menu.addItem(item => item
+                .setTitle(header)
+                .setChecked(visible)
+                .onClick(() => {
+                    if (visible) {
+                        // Keep at least one column on screen
+                        if (this.visibleHeaders().length === 1) {
+                            return;
+                        }
+                        this.hiddenColumns.add(header);
+                        if (this.sortColumn === header) {
+                            this.sortColumn = null;
+                        }
+                    } else {
+                        this.hiddenColumns.delete(header);
+                    }
+                    this.update();
+                }));
+        }
+
+        if (this.hiddenColumns.size > 0) {
+            menu.addSeparator();
+            menu.addItem(item => item
+                .setTitle('Show all columns')
+                .onClick(() => {
+                    this.hiddenColumns.clear();
+                    this.update();
+                }));
+        }
+
+        menu.showAtMouseEvent(event);
+    }
+}
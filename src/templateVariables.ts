@@ -0,0 +1,117 @@
+import { moment } from 'obsidian';
+
+export interface QueryContext {
+    frontmatter: Record<string, any>;
+    file?: {
+        name: string;
+        basename: string;
+        path: string;
+        folder: string;
+        ctime: number;
+        mtime: number;
+    };
+}
+
+const TEMPLATE_VARIABLE_PATTERN = /\{\{\s*((?:frontmatter|file)(?:\.[^{}\s]+)?|date(?::[^{}]+)?)\s*\}\}/g;
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+
+function lookupFrontmatterValue(frontmatter: Record<string, any>, propertyPath: string): any {
+    const segments = propertyPath.split('.').map(segment => segment.trim()).filter(Boolean);
+    let current: any = frontmatter;
+
+    for (const segment of segments) {
+        if (current === null || current === undefined || typeof current !== 'object') {
+            return undefined;
+        }
+        current = current[segment];
+    }
+
+    return current;
+}
+
+function resolveTemplateVariable(expression: string, context: QueryContext): any {
+    if (expression === 'date' || expression.startsWith('date:')) {
+        const format = expression.startsWith('date:') ? expression.substring(5).trim() : DEFAULT_DATE_FORMAT;
+        return moment().format(format || DEFAULT_DATE_FORMAT);
+    }
+
+    if (expression.startsWith('frontmatter.')) {
+        const propertyPath = expression.substring('frontmatter.'.length);
+        const value = lookupFrontmatterValue(context.frontmatter || {}, propertyPath);
+        if (value === null || value === undefined) {
+            throw new Error(`Template variable "{{${expression}}}" is not set in note properties`);
+        }
+        return value;
+    }
+
+    if (expression.startsWith('file.')) {
+        if (!context.file) {
+            throw new Error(`Template variable "{{${expression}}}" requires a source note`);
+        }
+
+        const field = expression.substring('file.'.length);
+        switch (field) {
+            case 'name':
+                return context.file.name;
+            case 'basename':
+                return context.file.basename;
+            case 'path':
+                return context.file.path;
+            case 'folder':
+                return context.file.folder;
+            case 'created':
+                return moment(context.file.ctime).format(DEFAULT_DATE_FORMAT);
+            case 'modified':
+                return moment(context.file.mtime).format(DEFAULT_DATE_FORMAT);
+        }
+    }
+
+    throw new Error(`Unknown template variable "{{${expression}}}"`);
+}
+
+function stringifyTemplateValue(value: any): string {
+    if (typeof value === 'object') {
+        return JSON.stringify(value);
+    }
+    return String(value);
+}
+
+/**
+ * Replace `{{frontmatter.*}}`, `{{file.*}}` and `{{date}}` placeholders in a string.
+ * Other `{{...}}` sequences are left untouched. `encode` is applied to each inserted value.
+ */
+export function interpolateTemplate(text: string, context: QueryContext, encode?: (value: string) => string): string {
+    return text.replace(TEMPLATE_VARIABLE_PATTERN, (_match, expression: string) => {
+        const value = stringifyTemplateValue(resolveTemplateVariable(expression.trim(), context));
+        return encode ? encode(value) : value;
+    });
+}
+
+/**
+ * Interpolate every string inside a JSON-like value.
+ * A string that consists of a single placeholder keeps the type of the resolved value,
+ * so `{"id": "{{frontmatter.id}}"}` stays numeric when the property is a number.
+ */
+export function interpolateValue(value: any, context: QueryContext): any {
+    if (typeof value === 'string') {
+        const singleMatch = value.match(/^\{\{\s*((?:frontmatter|file)(?:\.[^{}\s]+)?|date(?::[^{}]+)?)\s*\}\}$/);
+        if (singleMatch) {
+            return resolveTemplateVariable(singleMatch[1].trim(), context);
+        }
+        return interpolateTemplate(value, context);
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(item => interpolateValue(item, context));
+    }
+
+    if (value && typeof value === 'object') {
+        const interpolated: Record<string, any> = {};
+        for (const [key, nested] of Object.entries(value)) {
+            interpolated[key] = interpolateValue(nested, context);
+        }
+        return interpolated;
+    }
+
+    return value;
+}
@@ -0,0 +1,299 @@
+import { compileExpression, compileFilter } from './pathQuery';
+
+export type TransformStep =
+    | { type: 'filter'; expression: string }
+    | { type: 'sort'; keys: Array<{ field: string; descending: boolean }> }
+    | { type: 'limit'; count: number }
+    | { type: 'offset'; count: number }
+    | { type: 'pick'; fields: string[] }
+    | { type: 'omit'; fields: string[] }
+    | { type: 'rename'; fields: Record<string, string> }
+    | { type: 'flatten'; depth?: number }; // no depth flattens every level
+
+const STEP_NAMES = ['filter', 'sort', 'limit', 'offset', 'pick', 'omit', 'rename', 'flatten'];
+
+function splitList(value: any): string[] {
+    const items = Array.isArray(value) ? value : String(value ?? '').split(',');
+    return items.map(item => String(item).trim()).filter(Boolean);
+}
+
+function parseCount(name: string, value: any): number {
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 0) {
+        throw new Error(`"${name}" needs a whole number, got "${value}"`);
+    }
+    return count;
+}
+
+function parseSortKeys(value: any): Array<{ field: string; descending: boolean }> {
+    const keys = splitList(value).map(item => {
+        const match = item.match(/^(-)?\s*(.+?)(?:\s+(asc|desc))?$/i);
+        if (!match) {
+            throw new Error(`Invalid sort key "${item}"`);
+        }
+        const field = match[2].trim();
+        compileExpression(field);
+        return { field, descending: Boolean(match[1]) || (match[3] || '').toLowerCase() === 'desc' };
+    });
+
+    if (keys.length === 0) {
+        throw new Error('"sort" needs at least one field');
+    }
+    return keys;
+}
+
+function parseRenames(value: any): Record<string, string> {
+    const fields: Record<string, string> = {};
+
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+        for (const [from, to] of Object.entries(value)) {
+            fields[from] = String(to);
+        }
+    } else {
+        for (const pair of splitList(value)) {
+            const match = pair.match(/^(.+?)\s*(?:=|->)\s*(.+)$/);
+            if (!match) {
+                throw new Error(`Invalid rename "${pair}". Use old=new`);
+            }
+            fields[match[1].trim()] = match[2].trim();
+        }
+    }
+
+    if (Object.keys(fields).length === 0) {
+        throw new Error('"rename" needs at least one old=new pair');
+    }
+    return fields;
+}
+
+function parseStep(name: string, value: any): TransformStep {
+    switch (name) {
+        case 'filter': {
+            const expression = String(value ?? '').trim();
+            if (!expression) {
+                throw new Error('"filter" needs a condition, e.g. status == \'open\'');
+            }
+            compileFilter(expression);
+            return { type: 'filter', expression };
+        }
+        case 'sort':
+            return { type: 'sort', keys: parseSortKeys(value) };
+        case 'limit':
+        case 'offset':
+            return { type: name, count: parseCount(name, value) };
+        case 'pick':
+        case 'omit': {
+            const fields = splitList(value);
+            if (fields.length === 0) {
+                throw new Error(`"${name}" needs at least one field`);
+            }
+            return { type: name, fields };
+        }
+        case 'rename':
+            return { type: 'rename', fields: parseRenames(value) };
+        case 'flatten':
+            if (value === undefined || value === null || value === '' || value === true) {
+                return { type: 'flatten' };
+            }
+            return { type: 'flatten', depth: Math.max(1, parseCount('flatten', value)) };
+        default:
+            throw new Error(`Unknown step "${name}". Use one of: ${STEP_NAMES.join(', ')}`);
+    }
+}
+
+/**
+ * Read one step given as `name: value` text, a bare `name`, or a `{ "name": value }` object
+ */
+function readStepEntry(entry: any): { name: string; value: any } {
+    if (typeof entry === 'string') {
+        const text = entry.trim().replace(/^-\s*/, '');
+        const separator = text.indexOf(':');
+        if (separator === -1) {
+            return { name: text.toLowerCase(), value: undefined };
+        }
+        return { name: text.substring(0, separator).trim().toLowerCase(), value: text.substring(separator + 1).trim() };
+    }
+
+    if (entry && typeof entry === 'object' && !Array.isArray(entry)) {
+        const keys = Object.keys(entry);
+        if (keys.length !== 1) {
+            throw new Error('Each step must have exactly one name, e.g. { "limit": 10 }');
+        }
+        return { name: keys[0].toLowerCase(), value: entry[keys[0]] };
+    }
+
+    throw new Error('Each step must be text like "limit: 10" or an object like { "limit": 10 }');
+}
+
+/**
+ * Parse a `transform` section: a list of `- step: value` lines or a JSON array of steps
+ */
+export function parseTransformSteps(value: any): TransformStep[] {
+    let entries: any[];
+
+    if (Array.isArray(value)) {
+        entries = value;
+    } else if (typeof value === 'string' && value.trim().startsWith('[')) {
+        try {
+            entries = JSON.parse(value);
+        } catch {
+            throw new Error('Transform must be valid JSON when written as an array');
+        }
+    } else if (typeof value === 'string') {
+        entries = value.split('\n').map(line => line.trim()).filter(line => line && line !== '-');
+    } else {
+        throw new Error('Transform must be a list of steps');
+    }
+
+    return entries.map((entry, index) => {
+        let name = '';
+        try {
+            const step = readStepEntry(entry);
+            name = step.name;
+            return parseStep(step.name, step.value);
+        } catch (error) {
+            const label = name ? ` (${name})` : '';
+            throw new Error(`Transform step ${index + 1}${label}: ${error.message}`);
+        }
+    });
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function flattenObject(value: Record<string, any>, depth: number, prefix = '', target: Record<string, any> = {}): Record<string, any> {
+    for (const [key, nested] of Object.entries(value)) {
+        const name = prefix ? `${prefix}.${key}` : key;
+        if (isPlainObject(nested) && depth > 0 && Object.keys(nested).length > 0) {
+            flattenObject(nested, depth - 1, name, target);
+        } else {
+            target[name] = nested;
+        }
+    }
+    return target;
+}
+
+/**
+ * Order values for sorting: numbers numerically, text naturally, missing values last
+ */
+export function compareValues(a: any, b: any): number {
+    const aMissing = a === null || a === undefined;
+    const bMissing = b === null || b === undefined;
+    if (aMissing || bMissing) {
+        return aMissing === bMissing ? 0 : aMissing ? 1 : -1;
+    }
+
+    if ((typeof a === 'number' || typeof a === 'boolean') && (typeof b === 'number' || typeof b === 'boolean')) {
+        return Number(a) - Number(b);
+    }
+
+    const aText = typeof a === 'object' ? JSON.stringify(a) : String(a);
+    const bText = typeof b === 'object' ? JSON.stringify(b) : String(b);
+    return aText.localeCompare(bText, undefined, { numeric: true });
+}
+
+/**
+ * Apply an object step to a single object, or to every object in an array
+ */
+function mapObjects(data: any, step: string, transform: (item: Record<string, any>) => Record<string, any>): any {
+    if (Array.isArray(data)) {
+        return data.map(item => isPlainObject(item) ? transform(item) : item);
+    }
+    if (isPlainObject(data)) {
+        return transform(data);
+    }
+    throw new Error(`"${step}" applies to objects or lists of objects, got ${data === null ? 'null' : typeof data}`);
+}
+
+function requireArray(data: any, step: string): any[] {
+    if (!Array.isArray(data)) {
+        const type = data === null ? 'null' : typeof data;
+        throw new Error(`"${step}" needs a list, got ${type}. Use path to select the list first`);
+    }
+    return data;
+}
+
+function applyStep(data: any, step: TransformStep): any {
+    switch (step.type) {
+        case 'filter': {
+            const matches = compileFilter(step.expression);
+            return requireArray(data, 'filter').filter(item => matches(item));
+        }
+        case 'sort': {
+            const keys = step.keys.map(key => ({ ...key, evaluate: compileExpression(key.field) }));
+            // Flattened rows use dotted names as literal keys, so prefer an exact key match
+            const readKey = (item: any, key: typeof keys[number]) =>
+                isPlainObject(item) && key.field in item ? item[key.field] : key.evaluate(item);
+
+            return requireArray(data, 'sort')
+                .map((item, index) => ({ item, index }))
+                .sort((a, b) => {
+                    for (const key of keys) {
+                        const aValue = readKey(a.item, key);
+                        const bValue = readKey(b.item, key);
+                        let order = compareValues(aValue, bValue);
+                        // Missing values stay last in both directions
+                        if (key.descending && aValue !== null && aValue !== undefined && bValue !== null && bValue !== undefined) {
+                            order = -order;
+                        }
+                        if (order !== 0) {
+                            return order;
+                        }
+                    }
+                    return a.index - b.index;
+                })
+                .map(entry => entry.item);
+        }
+        case 'limit':
+            return requireArray(data, 'limit').slice(0, step.count);
+        case 'offset':
+            return requireArray(data, 'offset').slice(step.count);
+        case 'pick':
+            return mapObjects(data, 'pick', item => {
+                const picked: Record<string, any> = {};
+                for (const field of step.fields) {
+                    if (field in item) {
+                        picked[field] = item[field];
+                    }
+                }
+                return picked;
+            });
+        case 'omit':
+            return mapObjects(data, 'omit', item => {
+                const kept: Record<string, any> = {};
+                for (const [key, value] of Object.entries(item)) {
+                    if (!step.fields.includes(key)) {
+                        kept[key] = value;
+                    }
+                }
+                return kept;
+            });
+        case 'rename':
+            return mapObjects(data, 'rename', item => {
+                const renamed: Record<string, any> = {};
+                for (const [key, value] of Object.entries(item)) {
+                    renamed[step.fields[key] ?? key] = value;
+                }
+                return renamed;
+            });
+        case 'flatten':
+            return mapObjects(data, 'flatten', item => flattenObject(item, step.depth ?? Infinity));
+    }
+}
+
+/**
+ * Run transform steps in order on the data selected by `path`
+ */
+export function applyTransforms(data: any, steps?: TransformStep[]): any {
+    if (!steps || steps.length === 0) {
+        return data;
+    }
+
+    return steps.reduce((current, step, index) => {
+        try {
+            return applyStep(current, step);
+        } catch (error) {
+            throw new Error(`Transform step ${index + 1} (${step.type}) failed: ${error.message}`);
+        }
+    }, data);
+}
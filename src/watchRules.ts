@@ -0,0 +1,154 @@
+import { compileExpression, compileFilter } from './pathQuery';
+
+export interface WatchRule {
+    kind: 'change' | 'condition';
+    expression: string; // watched path for `change`, condition for `condition`
+    highlight?: string; // extra class while a condition holds
+}
+
+export interface WatchMatch {
+    rule: WatchRule;
+    message: string;
+}
+
+const CHANGE_SUFFIX = /\s+(?:changes|changed)$/i;
+const HIGHLIGHT_SUFFIX = /\s*=>\s*([A-Za-z][\w-]*)$/;
+const COMPARISON = /^(.+?)\s*(>=|<=|==|!=|>|<)\s*(.+)$/;
+const MAX_VALUE_LENGTH = 60;
+
+function parseWatchRule(text: string): WatchRule {
+    let expression = text.trim().replace(/^-\s*/, '');
+    const source = expression;
+    let highlight: string | undefined;
+
+    const highlightMatch = expression.match(HIGHLIGHT_SUFFIX);
+    if (highlightMatch) {
+        highlight = highlightMatch[1].toLowerCase();
+        expression = expression.substring(0, highlightMatch.index).trim();
+    }
+
+    if (CHANGE_SUFFIX.test(expression)) {
+        if (highlight) {
+            throw new Error(`Watch rule "${source}": highlights only apply to conditions`);
+        }
+        expression = expression.replace(CHANGE_SUFFIX, '').trim() || '@';
+        compileExpression(expression);
+        return { kind: 'change', expression };
+    }
+
+    if (!expression) {
+        throw new Error('Watch rules need a condition, e.g. balance > 100, or a path followed by "changes"');
+    }
+    compileFilter(expression);
+    return { kind: 'condition', expression, highlight };
+}
+
+/**
+ * Parse a `watch` section: one rule per line (or a JSON array of rules).
+ * `path changes` fires when the value changes; anything else is a condition that fires when it becomes true.
+ * A condition can end with `=> name` to add a highlight class while it holds.
+ */
+export function parseWatchRules(value: any): WatchRule[] {
+    let lines: any[];
+
+    if (Array.isArray(value)) {
+        lines = value;
+    } else if (typeof value === 'string' && value.trim().startsWith('[')) {
+        try {
+            lines = JSON.parse(value);
+        } catch {
+            throw new Error('Watch must be valid JSON when written as an array');
+        }
+    } else if (typeof value === 'string') {
+        lines = value.split('\n');
+    } else {
+        throw new Error('Watch must be a list of rules');
+    }
+
+    const rules = lines
+        .map(line => String(line).trim())
+        .filter(line => line && line !== '-')
+        .map(line => {
+            try {
+                return parseWatchRule(line);
+            } catch (error) {
+                throw new Error(error.message.startsWith('Watch rule') ? error.message : `Watch rule "${line}": ${error.message}`);
+            }
+        });
+
+    if (rules.length === 0) {
+        throw new Error('`watch` needs at least one rule');
+    }
+    return rules;
+}
+
+function formatValue(value: any): string {
+    const text = value === undefined ? 'nothing' : JSON.stringify(value);
+    return text.length > MAX_VALUE_LENGTH ? `${text.substring(0, MAX_VALUE_LENGTH - 1)}…` : text;
+}
+
+function conditionHolds(rule: WatchRule, data: any): boolean {
+    try {
+        return compileFilter(rule.expression)(data);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Describe the left side of a comparison, e.g. `balance > 100` → `balance is 123`
+ */
+function describeCondition(rule: WatchRule, data: any): string {
+    const comparison = rule.expression.match(COMPARISON);
+    if (!comparison) {
+        return rule.expression;
+    }
+    try {
+        return `${rule.expression} (${comparison[1].trim()} is ${formatValue(compileExpression(comparison[1].trim())(data))})`;
+    } catch {
+        return rule.expression;
+    }
+}
+
+/**
+ * Rules that fire for a new result. `previous` is the last stored result's data, if any.
+ * Conditions only fire when they become true, so a value that stays above a threshold
+ * notifies once.
+ */
+export function evaluateWatchRules(rules: WatchRule[], previous: any, current: any, hasPrevious: boolean): WatchMatch[] {
+    const matches: WatchMatch[] = [];
+
+    for (const rule of rules) {
+        if (rule.kind === 'change') {
+            if (!hasPrevious) {
+                continue;
+            }
+            const read = compileExpression(rule.expression);
+            const before = read(previous);
+            const after = read(current);
+            if (JSON.stringify(before) !== JSON.stringify(after)) {
+                matches.push({ rule, message: `${rule.expression} changed: ${formatValue(before)} → ${formatValue(after)}` });
+            }
+        } else if (conditionHolds(rule, current) && !(hasPrevious && conditionHolds(rule, previous))) {
+            matches.push({ rule, message: describeCondition(rule, current) });
+        }
+    }
+
+    return matches;
+}
+
+/**
+ * Classes for the rendered result while conditions hold
+ */
+export function watchHighlightClasses(rules: WatchRule[], data: any): string[] {
+    const classes: string[] = [];
+    for (const rule of rules) {
+        if (rule.kind === 'condition' && conditionHolds(rule, data)) {
+            classes.push('data-fetcher-watch-active');
+            if (rule.highlight) {
+                classes.push(`data-fetcher-watch-${rule.highlight}`);
+            }
+        }
+    }
+    return Array.from(new Set(classes));
+}